@@ -0,0 +1,73 @@
+import { PlatformAccessory, Service } from 'homebridge';
+import { MAX_SERVICES } from './lib/config';
+
+/**
+ * Accessory services
+ * Reuses the services of a cached accessory and removes the ones the handler didn't obtain again,
+ * i.e. the services of features no longer in the config. Keeps the accessory within the services HAP accepts.
+ */
+export class AccessoryServices {
+  private readonly obtained = new Set<Service>();
+
+  /**
+   * @param {string} accessoryInformationUUID the accessory information service is never removed
+   * @param {function} onSkipped called with the name of an optional service that didn't fit
+   */
+  constructor(
+    private readonly accessory: PlatformAccessory,
+    private readonly accessoryInformationUUID: string,
+    private readonly onSkipped: (name: string) => void = () => undefined,
+  ) {
+  }
+
+  /**
+   * Gets the service of the cached accessory or adds it
+   */
+  obtain(type: typeof Service, name: string, subtype: string): Service {
+    let service = this.accessory.getService(name);
+    if (!service) {
+      this.makeRoom();
+      service = this.accessory.addService(type, name, subtype);
+    }
+    this.obtained.add(service);
+    return service;
+  }
+
+  /**
+   * Like obtain() for the services of optional features (inputs, scenes, routines), they share the services left
+   * after the ones obtained before. Obtain the required services first.
+   * @returns undefined when the accessory is full
+   */
+  obtainOptional(type: typeof Service, name: string, subtype: string): Service | undefined {
+    // the accessory information service counts too
+    if (this.obtained.size + 1 >= MAX_SERVICES) {
+      this.onSkipped(name);
+      return undefined;
+    }
+    return this.obtain(type, name, subtype);
+  }
+
+  /**
+   * Removes the services that were not obtained since the handler was created
+   * @returns the removed services
+   */
+  prune(): Service[] {
+    const removed = this.stale();
+    removed.forEach(service => this.accessory.removeService(service));
+    return removed;
+  }
+
+  private stale(): Service[] {
+    return this.accessory.services.filter(service => service.UUID !== this.accessoryInformationUUID && !this.obtained.has(service));
+  }
+
+  /**
+   * The services of features no longer in the config are pruned at the end, a full cached accessory drops one now
+   */
+  private makeRoom() {
+    if (this.accessory.services.length >= MAX_SERVICES) {
+      const [stale] = this.stale();
+      stale && this.accessory.removeService(stale);
+    }
+  }
+}
@@ -0,0 +1,244 @@
+#!/usr/bin/env node
+/**
+ * sp108e command-line tool
+ * Checks and controls a controller without Homebridge, e.g. `sp108e --host 192.168.1.50 status`
+ */
+import { format } from 'util';
+import colorConvert from 'color-convert';
+import sp108e, { sp108eStatus } from './lib/sp108e';
+import { DEFAULT_PORT } from './lib/discovery';
+import { ANIMATION_MODES, PRESET_EFFECTS, UNKNOWN_MODE } from './lib/animationModes';
+import { CHIP_TYPES } from './lib/chipTypes';
+import { COLOR_ORDERS } from './lib/colorOrders';
+import { resolveEffect } from './lib/playlist';
+
+const USAGE = `Usage: sp108e --host <address> [--port ${DEFAULT_PORT}] [--timeout ms] [--json] [--debug] <command>
+
+Commands:
+  status                    show the controller status (--json for machine-readable output)
+  name                      show the name the controller reports
+  on | off | toggle         switch the leds
+  color <hex|name>          set a static color, e.g. ff8800 or orange
+  brightness <0-100>        set the brightness in percent
+  white <0-100>             set the white channel brightness of RGBW strips in percent
+  speed <0-100>             set the animation speed in percent
+  mode <name|id>            set an animation mode or preset effect
+  preset <name|id>          set a preset effect
+  effects                   list animation modes and preset effects
+  setup [--chip type] [--order order] [--segments n] [--leds n]
+                            set chip type, color order, segments and LEDs per segment
+
+The host can also be set with the SP108E_HOST environment variable.`;
+
+/**
+ * Raised for invalid command lines, printed with the usage
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+    Object.setPrototypeOf(this, UsageError.prototype);
+  }
+}
+
+interface Arguments {
+  positionals: string[];
+  options: { [name: string]: string | boolean };
+}
+
+const FLAGS = ['json', 'debug', 'help'];
+
+const parseArguments = (argv: string[]): Arguments => {
+  const positionals: string[] = [];
+  const options: { [name: string]: string | boolean } = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+    const [name, inlineValue] = arg.slice(2).split('=', 2);
+    if (FLAGS.includes(name)) {
+      options[name] = true;
+    } else if (inlineValue !== undefined) {
+      options[name] = inlineValue;
+    } else if (i + 1 < argv.length) {
+      options[name] = argv[++i];
+    } else {
+      throw new UsageError(`Missing value for --${name}`);
+    }
+  }
+  return { positionals, options };
+};
+
+const parseInteger = (value: string | boolean | undefined, name: string, min: number, max: number): number => {
+  const n = Number(value);
+  if (typeof value !== 'string' || !Number.isInteger(n) || n < min || n > max) {
+    throw new UsageError(`Invalid ${name}: ${value} (expected an integer ${min}-${max})`);
+  }
+  return n;
+};
+
+const parseColor = (value: string | undefined): string => {
+  if (value === undefined) {
+    throw new UsageError('Missing color');
+  }
+  if (/^#?[0-9a-f]{6}$/i.test(value)) {
+    return value.replace('#', '').toLowerCase();
+  }
+  // CSS color keywords, e.g. "orange"
+  const rgb = colorConvert.keyword.rgb(value.toLowerCase() as Parameters<typeof colorConvert.keyword.rgb>[0]);
+  if (!rgb) {
+    throw new UsageError(`Invalid color: ${value} (expected a 6 digit hex color or a CSS color name)`);
+  }
+  return colorConvert.rgb.hex(rgb).toLowerCase();
+};
+
+const findIgnoringCase = (list: string[], value: string | boolean, name: string): string => {
+  const found = list.find(item => item.toLowerCase() === String(value).toLowerCase());
+  if (!found) {
+    throw new UsageError(`Invalid ${name}: ${value} (expected one of ${list.join(', ')})`);
+  }
+  return found;
+};
+
+const describeMode = (status: sp108eStatus): string => {
+  if (status.customEffectMode !== UNKNOWN_MODE) {
+    return `custom effect ${status.customEffectMode}`;
+  }
+  if (status.presetEffectMode !== UNKNOWN_MODE) {
+    return `preset ${PRESET_EFFECTS[status.presetEffectMode] ?? 'unknown'} (${status.presetEffectMode})`;
+  }
+  if (status.animationMode !== UNKNOWN_MODE) {
+    return `animation ${ANIMATION_MODES[status.animationMode] ?? 'unknown'} (${status.animationMode})`;
+  }
+  return 'unknown';
+};
+
+const formatStatus = (status: sp108eStatus): string => {
+  const percent = (value: number) => `${Math.round(value)}%`;
+  return [
+    ['power', status.on ? 'on' : 'off'],
+    ['mode', describeMode(status)],
+    ['color', '#' + status.color],
+    ['brightness', percent(status.brightnessPercentage)],
+    ['white brightness', percent(status.whiteBrightnessPercentage)],
+    ['speed', percent(status.animationSpeedPercentage)],
+    ['chip type', CHIP_TYPES[status.icType] ?? `unknown (${status.icType})`],
+    ['color order', COLOR_ORDERS[status.colorOrder] ?? `unknown (${status.colorOrder})`],
+    ['segments', status.numberOfSegments],
+    ['LEDs per segment', status.ledsPerSegment],
+    ['recorded patterns', status.recordedPatterns],
+  ].map(([key, value]) => `${String(key).padEnd(18)}${value}`).join('\n');
+};
+
+const print = (text: string) => {
+  process.stdout.write(text + '\n');
+};
+
+const printError = (message: string, ...parameters: unknown[]) => {
+  process.stderr.write(format(message, ...parameters) + '\n');
+};
+
+const run = async (argv: string[]) => {
+  const { positionals, options } = parseArguments(argv);
+  const [command, argument] = positionals;
+  if (options.help || !command) {
+    print(USAGE);
+    return;
+  }
+
+  if (command === 'effects') {
+    const list = (effects: { [id: number]: string }) => Object.entries(effects).map(([id, name]) => `  ${id.padStart(3)}  ${name}`);
+    print(['Animation modes:', ...list(ANIMATION_MODES), 'Preset effects:', ...list(PRESET_EFFECTS)].join('\n'));
+    return;
+  }
+
+  const host = options.host ?? process.env.SP108E_HOST;
+  if (typeof host !== 'string') {
+    throw new UsageError('Missing --host');
+  }
+  const client = new sp108e({
+    host,
+    port: options.port === undefined ? DEFAULT_PORT : parseInteger(options.port, 'port', 1, 65535),
+    timeout: options.timeout === undefined ? undefined : parseInteger(options.timeout, 'timeout', 1, 60000),
+    debug: Boolean(options.debug),
+    logger: { info: printError, debug: printError },
+  });
+
+  const printStatus = (status: sp108eStatus) => print(options.json ? JSON.stringify(status, null, 2) : formatStatus(status));
+
+  switch (command) {
+    case 'status':
+      printStatus(await client.getStatus());
+      break;
+    case 'name':
+      print(await client.getName());
+      break;
+    case 'on':
+    case 'off':
+      printStatus(await client.setPower(command === 'on'));
+      break;
+    case 'toggle':
+      printStatus(await client.toggleOnOff());
+      break;
+    case 'color':
+      await client.setColor(parseColor(argument));
+      break;
+    case 'brightness':
+      await client.setBrightnessPercentage(parseInteger(argument, 'brightness', 0, 100));
+      break;
+    case 'white':
+      await client.setWhiteBrightnessPercentage(parseInteger(argument, 'white brightness', 0, 100));
+      break;
+    case 'speed':
+      await client.setAnimationSpeedPercentage(parseInteger(argument, 'speed', 0, 100));
+      break;
+    case 'mode':
+    case 'preset': {
+      const effect = argument === undefined ? undefined : resolveEffect(argument);
+      if (!effect || (command === 'preset' && effect.type !== 'preset')) {
+        throw new UsageError(`Unknown ${command === 'preset' ? 'preset effect' : 'mode'}: ${argument} (see "sp108e effects")`);
+      }
+      if (effect.type === 'preset') {
+        await client.setPresetMode(effect.effect);
+      } else {
+        await client.setAnimationMode(effect.effect);
+      }
+      break;
+    }
+    case 'setup': {
+      const { chip, order, segments, leds } = options;
+      if (chip === undefined && order === undefined && segments === undefined && leds === undefined) {
+        throw new UsageError('setup needs at least one of --chip, --order, --segments, --leds');
+      }
+      // validate everything before changing anything
+      const chipType = chip === undefined ? undefined : findIgnoringCase(CHIP_TYPES, chip, 'chip type');
+      const colorOrder = order === undefined ? undefined : findIgnoringCase(COLOR_ORDERS, order, 'color order');
+      const segmentCount = segments === undefined ? undefined : parseInteger(segments, 'segments', 1, 0xffff);
+      const ledsPerSegment = leds === undefined ? undefined : parseInteger(leds, 'LEDs per segment', 1, 0xffff);
+
+      chipType !== undefined && await client.setChipType(chipType);
+      colorOrder !== undefined && await client.setColorOrder(colorOrder);
+      segmentCount !== undefined && await client.setSegments(segmentCount);
+      ledsPerSegment !== undefined && await client.setLedsPerSegment(ledsPerSegment);
+      printStatus(await client.getStatus());
+      break;
+    }
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+};
+
+if (require.main === module) {
+  run(process.argv.slice(2)).then(() => {
+    process.exit(0);
+  }, (err) => {
+    printError(err instanceof Error ? err.message : err);
+    if (err instanceof UsageError) {
+      printError('\n' + USAGE);
+      process.exit(2);
+    }
+    process.exit(1);
+  });
+}
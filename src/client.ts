@@ -0,0 +1,17 @@
+/**
+ * Public entry point of the SP108E client, independent of Homebridge
+ *
+ *   import { Sp108eClient } from 'homebridge-sp108e-platform-enhanced/client';
+ *
+ *   const client = new Sp108eClient({ host: '192.168.1.50', port: 8189, logger: console });
+ *   client.events.on('status', status => console.log(status.color));
+ *   await client.setPower(true);
+ */
+export { default as Sp108eClient, sp108eOptions, sp108eLogger } from './lib/sp108e';
+export { ConnectionHealth, ConnectionHealthOptions, HealthState, CircuitOpenError } from './lib/connectionHealth';
+export { CommandQueueStats } from './lib/commandQueue';
+export { COMMANDS, CommandName, ProtocolError, sp108eStatus, hsv, encodeFrame, decodeStatus, decodeName } from './lib/protocol';
+export { DEFAULT_PORT, DiscoveredDevice, DiscoveryOptions, discover, probeHost } from './lib/discovery';
+export * from './lib/animationModes';
+export { CHIP_TYPES, RGBW_CHIP_TYPES } from './lib/chipTypes';
+export { COLOR_ORDERS } from './lib/colorOrders';
@@ -0,0 +1,282 @@
+import { Service, PlatformAccessory, CharacteristicValue } from 'homebridge';
+import colorConvert from 'color-convert';
+import { Sp108ePlatform } from './platform';
+import { Sp108ePlatformAccessory, DeviceState } from './platformAccessory';
+import { ANIMATION_MODES, ANIMATION_MODE_STATIC, PRESET_EFFECTS } from './lib/animationModes';
+import { calculateHsv } from './lib/protocol';
+import { parseAvailableEffects, MAX_SERVICES } from './lib/config';
+import { MANUFACTURER, MODEL } from './settings';
+import { AccessoryServices } from './accessoryServices';
+
+// presets offered when the group config doesn't limit them, the TV accessory accepts only 100 inputs
+const DEFAULT_PRESET_COUNT = 50;
+// values written from HomeKit are kept until the members had time to poll them
+const WRITE_SETTLE_MS = 2000;
+
+const average = (values: number[]) => Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+
+/**
+ * Group Accessory
+ * One virtual accessory for several controllers. Writes fan out to all members in parallel through their handlers,
+ * the state shown in HomeKit is aggregated from the polled status of the members.
+ */
+export class Sp108eGroupAccessory {
+  private readonly lightService: Service;
+  private readonly speedService: Service;
+  private readonly effectService: Service;
+  private readonly lastWrites = new Map<string, number>();
+  private hue = 0;
+  private saturation = 0;
+  // effect selected last, applied when the effects are switched on
+  private effect: number;
+  private updatePending = false;
+  private readonly services: AccessoryServices;
+
+  constructor(
+    private readonly platform: Sp108ePlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly members: Sp108ePlatformAccessory[],
+  ) {
+    const name = accessory.context.group.name;
+    const serialNumberBase = `group:${name}`;
+    this.services = new AccessoryServices(accessory, this.platform.Service.AccessoryInformation.UUID, (serviceName) => {
+      this.platform.log.warn(`Group ${name}: HomeKit accepts ${MAX_SERVICES} services per accessory, skipping ->`, serviceName);
+    });
+
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Name, name)
+      .setCharacteristic(this.platform.Characteristic.ConfiguredName, name)
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, MANUFACTURER)
+      .setCharacteristic(this.platform.Characteristic.Model, `${MODEL} Group`)
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, serialNumberBase);
+    this.accessory.category = this.platform.api.hap.Categories.LIGHTBULB;
+
+    // color light
+    const lightServiceName = name + ' Color';
+    this.lightService = this.services.obtain(this.platform.Service.Lightbulb, lightServiceName, `${serialNumberBase}/rgb`);
+    this.lightService.getCharacteristic(this.platform.Characteristic.On)
+      .onSet(this.setOn.bind(this));
+    this.lightService.getCharacteristic(this.platform.Characteristic.Brightness)
+      .onSet(this.setBrightness.bind(this));
+    this.lightService.getCharacteristic(this.platform.Characteristic.Hue)
+      .onSet(this.setHue.bind(this));
+    this.lightService.getCharacteristic(this.platform.Characteristic.Saturation)
+      .onSet(this.setSaturation.bind(this));
+
+    // animation speed
+    const speedServiceName = name + ' Animation Speed';
+    this.speedService = this.services.obtain(this.platform.Service.Fanv2, speedServiceName, `${serialNumberBase}/as`);
+    this.speedService.setCharacteristic(this.platform.Characteristic.ConfiguredName, speedServiceName);
+    this.speedService.getCharacteristic(this.platform.Characteristic.Active)
+      .onSet(this.setEffectOn.bind(this));
+    this.speedService.getCharacteristic(this.platform.Characteristic.RotationSpeed)
+      .onSet(this.setSpeed.bind(this));
+
+    for (const service of [this.lightService, this.speedService]) {
+      service.addOptionalCharacteristic(this.platform.Characteristic.StatusFault);
+    }
+
+    // animation modes and preset effects in one input list
+    const effectServiceName = name + ' Effect';
+    this.effectService = this.services.obtain(this.platform.Service.Television, effectServiceName, `${serialNumberBase}/ef`);
+    this.effectService
+      .setCharacteristic(this.platform.Characteristic.ConfiguredName, effectServiceName)
+      .setCharacteristic(this.platform.Characteristic.SleepDiscoveryMode,
+        this.platform.Characteristic.SleepDiscoveryMode.ALWAYS_DISCOVERABLE);
+    this.effectService.getCharacteristic(this.platform.Characteristic.Active)
+      .onSet(this.setEffectOn.bind(this));
+    this.effectService.getCharacteristic(this.platform.Characteristic.ActiveIdentifier)
+      .onSet(this.setEffect.bind(this));
+
+    const effects = this.availableEffects();
+    this.effect = effects[0][0];
+    for (const [effect, effectName] of effects) {
+      const inputServiceName = `${effectName} EF`;
+      const inputSource =
+        this.services.obtainOptional(this.platform.Service.InputSource, inputServiceName, `${serialNumberBase}/ef/${effect}`);
+      if (!inputSource) {
+        break;
+      }
+      inputSource
+        .setCharacteristic(this.platform.Characteristic.Identifier, effect)
+        .setCharacteristic(this.platform.Characteristic.ConfiguredName, effectName)
+        .setCharacteristic(this.platform.Characteristic.IsConfigured, this.platform.Characteristic.IsConfigured.CONFIGURED)
+        .setCharacteristic(this.platform.Characteristic.InputSourceType, this.platform.Characteristic.InputSourceType.HDMI);
+      this.effectService.addLinkedService(inputSource);
+    }
+
+    // inputs of effects no longer available
+    this.services.prune();
+
+    this.platform.log.info(`Group ${name} ->`, members.map(member => member.name));
+    for (const member of members) {
+      member.onStateChange(this.scheduleUpdate.bind(this));
+    }
+  }
+
+  /**
+   * Animation modes (without static) and the presets of `availableEffects`, or the first DEFAULT_PRESET_COUNT presets
+   */
+  private availableEffects(): [number, string][] {
+    const allowed = parseAvailableEffects(this.accessory.context.group.availableEffects, (entry) => {
+      this.platform.log.warn(`Group ${this.accessory.context.group.name}: availableEffects entry not found in PRESET_EFFECTS ->`, entry);
+    });
+
+    const animationModes = Object.entries(ANIMATION_MODES)
+      .filter(([animationMode]) => Number(animationMode) !== ANIMATION_MODE_STATIC);
+    const presets = Object.entries(PRESET_EFFECTS)
+      .filter(([preset]) => allowed.length === 0 || allowed.includes(Number(preset)))
+      .slice(0, allowed.length === 0 ? DEFAULT_PRESET_COUNT : undefined);
+    return [...animationModes, ...presets].map(([effect, effectName]) => [Number(effect), effectName]);
+  }
+
+  /**
+   * Runs a write on all members in parallel and answers HomeKit right away, a member that doesn't answer must not
+   * delay the others. Offline members are skipped and failures of single members are logged with a status fault
+   * once all writes completed, the write only fails in HomeKit when all members are offline.
+   */
+  async fanOut(description: string, write: (member: Sp108ePlatformAccessory) => Promise<unknown>) {
+    const online = this.members.filter(member => member.health !== 'offline');
+    if (online.length === 0) {
+      this.platform.log.warn(`${this.accessory.context.group.name}: ${description} failed, all members are offline`);
+      this.setStatusFault(true);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+
+    Promise.all(online.map(member => write(member).then(() => undefined, (e) => e ?? new Error('failed')))).then((errors) => {
+      const failed = [
+        ...this.members.filter(member => !online.includes(member)),
+        ...online.filter((_, i) => errors[i] !== undefined),
+      ];
+      if (failed.length > 0) {
+        this.platform.log.warn(`${this.accessory.context.group.name}: ${description} failed for ->`, failed.map(member => member.name));
+        online.forEach((member, i) => errors[i] && this.platform.log.debug(`${member.name} ->`, errors[i]));
+      }
+      this.setStatusFault(failed.length > 0);
+    });
+  }
+
+  async setOn(value: CharacteristicValue) {
+    this.lastWrites.set('on', Date.now());
+    await this.fanOut('power', member => member.applyPower(Boolean(value)));
+  }
+
+  async setBrightness(value: CharacteristicValue) {
+    this.lastWrites.set('brightness', Date.now());
+    await this.fanOut('brightness', member => member.applyBrightness(value as number));
+  }
+
+  async setHue(value: CharacteristicValue) {
+    this.hue = value as number;
+    await this.setColor();
+  }
+
+  async setSaturation(value: CharacteristicValue) {
+    this.saturation = value as number;
+    await this.setColor();
+  }
+
+  async setColor() {
+    this.lastWrites.set('color', Date.now());
+    // hue and saturation arrive as separate writes, the members coalesce them
+    const hexColor = colorConvert.hsv.hex([this.hue, this.saturation, 100]).toLowerCase();
+    await this.fanOut('color', member => member.applyColor(hexColor));
+  }
+
+  async setSpeed(value: CharacteristicValue) {
+    this.lastWrites.set('speed', Date.now());
+    await this.fanOut('speed', member => member.applySpeed(value as number));
+  }
+
+  async setEffectOn(value: CharacteristicValue) {
+    const active = value === this.platform.Characteristic.Active.ACTIVE;
+    await this.applyEffect(active ? this.effect : ANIMATION_MODE_STATIC);
+  }
+
+  async setEffect(value: CharacteristicValue) {
+    this.effect = value as number;
+    await this.applyEffect(this.effect);
+  }
+
+  private async applyEffect(effect: number) {
+    this.lastWrites.set('effect', Date.now());
+    if (ANIMATION_MODES[effect] !== undefined) {
+      await this.fanOut('animation mode', member => member.applyAnimationMode(effect));
+    } else {
+      await this.fanOut('preset effect', member => member.applyPresetEffect(effect));
+    }
+  }
+
+  private setStatusFault(fault: boolean) {
+    const statusFault = fault ?
+      this.platform.Characteristic.StatusFault.GENERAL_FAULT :
+      this.platform.Characteristic.StatusFault.NO_FAULT;
+    for (const service of [this.lightService, this.speedService]) {
+      service.updateCharacteristic(this.platform.Characteristic.StatusFault, statusFault);
+    }
+  }
+
+  private settled(key: string) {
+    return Date.now() - (this.lastWrites.get(key) ?? 0) > WRITE_SETTLE_MS;
+  }
+
+  /**
+   * Members report their polls one after the other, aggregate once per tick
+   */
+  private scheduleUpdate() {
+    if (this.updatePending) {
+      return;
+    }
+    this.updatePending = true;
+    setImmediate(() => {
+      this.updatePending = false;
+      this.update();
+    });
+  }
+
+  /**
+   * The group is on when any member is on. Brightness and speed are the average of the members that are on,
+   * the color is the one of the first of them. An effect is shown when all of them run the same one.
+   */
+  update() {
+    const states = this.members.map(member => member.getState()).filter((state): state is DeviceState => state !== undefined);
+    if (states.length === 0) {
+      return;
+    }
+    const on = states.filter(state => state.on);
+    const shown = on.length > 0 ? on : states;
+    const { Characteristic } = this.platform;
+
+    if (this.settled('on')) {
+      this.lightService.updateCharacteristic(Characteristic.On, on.length > 0);
+    }
+    if (this.settled('brightness')) {
+      this.lightService.updateCharacteristic(Characteristic.Brightness, on.length > 0 ? average(on.map(state => state.brightness)) : 0);
+    }
+    if (this.settled('color')) {
+      const { hue, saturation } = calculateHsv(shown[0].color);
+      this.hue = hue;
+      this.saturation = saturation;
+      this.lightService.updateCharacteristic(Characteristic.Hue, hue);
+      this.lightService.updateCharacteristic(Characteristic.Saturation, saturation);
+    }
+    if (this.settled('speed')) {
+      this.speedService.updateCharacteristic(Characteristic.RotationSpeed, average(shown.map(state => state.speed)));
+    }
+
+    if (this.settled('effect')) {
+      const [mode] = on.map(state => state.mode);
+      const sameEffect = mode !== undefined && on.every(state => state.mode.type === mode.type && state.mode.id === mode.id);
+      const effectOn = sameEffect && (mode.type === 'preset' || (mode.type === 'animation' && mode.id !== ANIMATION_MODE_STATIC));
+      const active = effectOn ? Characteristic.Active.ACTIVE : Characteristic.Active.INACTIVE;
+      if (effectOn) {
+        this.effect = mode.id;
+        this.effectService.updateCharacteristic(Characteristic.ActiveIdentifier, mode.id);
+      }
+      this.effectService.updateCharacteristic(Characteristic.Active, active);
+      this.speedService.updateCharacteristic(Characteristic.Active, active);
+    }
+
+    this.setStatusFault(this.members.some(member => member.health === 'offline'));
+  }
+}
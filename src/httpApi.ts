@@ -0,0 +1,298 @@
+/**
+ * Local REST API
+ * Lets frontends other than HomeKit (wall tablets, Node-RED, scripts) read and control the controllers.
+ * Changes go through the accessory handlers, so HomeKit stays in sync.
+ *
+ *   GET  /effects                     animation modes, preset effects and custom effects
+ *   GET  /devices                     state of all controllers
+ *   GET  /devices/:id                 state of one controller (id = accessory UUID or name)
+ *   GET  /devices/:id/queue           depth and waiting times of the command queue, for debugging
+ *   PUT  /devices/:id/power           { "on": true, "transition": seconds (optional) }
+ *   PUT  /devices/:id/brightness      { "brightness": 0-100, "transition": seconds (optional) }
+ *   PUT  /devices/:id/color           { "color": "ff8800", "transition": seconds (optional) }
+ *   PUT  /devices/:id/white           { "white": 0-100 }
+ *   PUT  /devices/:id/speed           { "speed": 0-100 }
+ *   POST /devices/:id/animation       { "mode": id or name }
+ *   POST /devices/:id/preset          { "preset": id or name }
+ *   POST /devices/:id/custom          { "effect": 1-12 }
+ */
+import * as http from 'http';
+import { URL } from 'url';
+import { timingSafeEqual } from 'crypto';
+import { Logger } from 'homebridge';
+import { Sp108ePlatformAccessory } from './platformAccessory';
+import { ANIMATION_MODES, PRESET_EFFECTS, CUSTOM_EFFECTS, CUSTOM_EFFECT_1, CUSTOM_EFFECT_12 } from './lib/animationModes';
+import { resolveEffect } from './lib/playlist';
+
+export const DEFAULT_HTTP_PORT = 8108;
+const DEFAULT_BIND_ADDRESS = '0.0.0.0';
+const MAX_BODY_BYTES = 4096;
+
+export interface HttpApiOptions {
+  port?: number;
+  bindAddress?: string;
+  token?: string;
+}
+
+/**
+ * Raised by request handlers, answered with its status code
+ */
+class HttpError extends Error {
+  constructor(public readonly statusCode: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    Object.setPrototypeOf(this, HttpError.prototype);
+  }
+}
+
+type Body = { [key: string]: unknown };
+
+const readBody = (request: http.IncomingMessage): Promise<Body> => {
+  return new Promise<Body>((resolve, reject) => {
+    let body = '';
+    request.setEncoding('utf8');
+    const onData = (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        // stop reading but keep the socket open for the 413, the connection is closed after the response
+        request.off('data', onData);
+        request.pause();
+        reject(new HttpError(413, 'Request body too large'));
+      }
+    };
+    request.on('data', onData);
+    request.on('end', () => {
+      if (body.trim() === '') {
+        resolve({});
+        return;
+      }
+      try {
+        const parsed = JSON.parse(body);
+        if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+          throw new Error('not an object');
+        }
+        resolve(parsed);
+      } catch (_) {
+        reject(new HttpError(400, 'Request body must be a JSON object'));
+      }
+    });
+    request.on('error', reject);
+  });
+};
+
+/**
+ * The decoded segments of the request path
+ */
+const parsePath = (url = '/'): string[] => {
+  try {
+    return new URL(url, 'http://localhost').pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch (_) {
+    throw new HttpError(400, 'Malformed path');
+  }
+};
+
+const percentage = (body: Body, key: string): number => {
+  const value = body[key];
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 100) {
+    throw new HttpError(400, `"${key}" must be a number 0-100`);
+  }
+  return value;
+};
+
+/**
+ * Optional fade duration in seconds, returned in milliseconds
+ */
+const transition = (body: Body): number | undefined => {
+  const value = body.transition;
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 60) {
+    throw new HttpError(400, '"transition" must be a number of seconds 0-60');
+  }
+  return value * 1000;
+};
+
+export class HttpApi {
+  private server?: http.Server;
+
+  constructor(
+    private readonly log: Logger,
+    private readonly options: HttpApiOptions,
+    private readonly devices: () => Sp108ePlatformAccessory[],
+  ) {
+  }
+
+  start = (): Promise<void> => {
+    const port = this.options.port ?? DEFAULT_HTTP_PORT;
+    const bindAddress = this.options.bindAddress || DEFAULT_BIND_ADDRESS;
+    if (!this.options.token) {
+      this.log.warn('The REST API has no token configured, anyone on the network can control the controllers');
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      this.server = http.createServer((request, response) => {
+        this.handle(request, response);
+      });
+      this.server.once('error', reject);
+      this.server.listen(port, bindAddress, () => {
+        this.log.info(`REST API listening on ${bindAddress}:${port}`);
+        // from now on errors are only logged, the API keeps serving
+        this.server?.off('error', reject);
+        this.server?.on('error', (e) => this.log.error('REST API error ->', e));
+        resolve();
+      });
+    });
+  };
+
+  stop = () => {
+    this.server?.close();
+    this.server = undefined;
+  };
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse) {
+    try {
+      this.authorize(request);
+      const result = await this.route(request);
+      // writes are answered once the handlers accepted them, the state follows with the next poll
+      this.send(response, result === undefined ? 204 : 200, result);
+    } catch (e) {
+      if (!request.complete) {
+        // the rest of the body (too large or not needed) isn't read, the connection can't be reused
+        response.setHeader('Connection', 'close');
+        response.once('finish', () => request.destroy());
+      }
+      if (e instanceof HttpError) {
+        this.send(response, e.statusCode, { error: e.message });
+      } else {
+        // the handlers throw HapStatusErrors when the controller doesn't answer
+        this.log.error('REST API request failed ->', request.method, request.url, e);
+        this.send(response, 502, { error: 'Controller did not respond' });
+      }
+    }
+  }
+
+  private authorize(request: http.IncomingMessage) {
+    if (!this.options.token) {
+      return;
+    }
+    const expected = Buffer.from(`Bearer ${this.options.token}`);
+    const actual = Buffer.from(request.headers.authorization ?? '');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new HttpError(401, 'Missing or invalid token');
+    }
+  }
+
+  private async route(request: http.IncomingMessage) {
+    const path = parsePath(request.url);
+    const method = request.method ?? 'GET';
+
+    if (method === 'GET' && path.length === 1 && path[0] === 'effects') {
+      return { animationModes: ANIMATION_MODES, presetEffects: PRESET_EFFECTS, customEffects: CUSTOM_EFFECTS };
+    }
+    if (path[0] !== 'devices' || path.length > 3) {
+      throw new HttpError(404, 'Not found');
+    }
+    if (path.length === 1) {
+      if (method !== 'GET') {
+        throw new HttpError(405, 'Method not allowed');
+      }
+      return this.devices().map(device => device.getState() ?? { id: device.id, name: device.name, health: 'unknown' });
+    }
+
+    const device = this.findDevice(path[1]);
+    if (path.length === 2) {
+      if (method !== 'GET') {
+        throw new HttpError(405, 'Method not allowed');
+      }
+      return this.state(device);
+    }
+
+    const action = `${method} ${path[2]}`;
+    if (action === 'GET queue') {
+      return device.queueStats;
+    }
+    const body = await readBody(request);
+    // the handlers need the polled status, writes before the first poll would only fail in the log
+    this.state(device);
+    switch (action) {
+      case 'PUT power':
+        if (typeof body.on !== 'boolean') {
+          throw new HttpError(400, '"on" must be a boolean');
+        }
+        await device.applyPower(body.on, transition(body));
+        break;
+      case 'PUT brightness':
+        await device.applyBrightness(percentage(body, 'brightness'), transition(body));
+        break;
+      case 'PUT color':
+        if (typeof body.color !== 'string' || !/^#?[0-9a-f]{6}$/i.test(body.color)) {
+          throw new HttpError(400, '"color" must be a 6 digit hex color');
+        }
+        await device.applyColor(body.color.replace('#', '').toLowerCase(), transition(body));
+        break;
+      case 'PUT white':
+        if (!device.hasWhiteChannel) {
+          throw new HttpError(409, 'The controller has no white channel');
+        }
+        await device.applyWhite(percentage(body, 'white'));
+        break;
+      case 'PUT speed':
+        await device.applySpeed(percentage(body, 'speed'));
+        break;
+      case 'POST animation':
+      case 'POST preset': {
+        const key = path[2] === 'animation' ? 'mode' : 'preset';
+        const value = body[key];
+        const effect = typeof value === 'number' || typeof value === 'string' ? resolveEffect(value) : undefined;
+        if (!effect || (key === 'preset' && effect.type !== 'preset')) {
+          throw new HttpError(400, `Unknown ${key === 'preset' ? 'preset effect' : 'mode'}: ${value}`);
+        }
+        if (effect.type === 'preset') {
+          await device.applyPresetEffect(effect.effect);
+        } else {
+          await device.applyAnimationMode(effect.effect);
+        }
+        break;
+      }
+      case 'POST custom': {
+        const effect = body.effect;
+        if (typeof effect !== 'number' || !Number.isInteger(effect) || effect < CUSTOM_EFFECT_1 || effect > CUSTOM_EFFECT_12) {
+          throw new HttpError(400, `"effect" must be an integer ${CUSTOM_EFFECT_1}-${CUSTOM_EFFECT_12}`);
+        }
+        await device.applyCustomEffect(effect);
+        break;
+      }
+      default:
+        throw new HttpError(404, 'Not found');
+    }
+    return undefined;
+  }
+
+  private findDevice(id: string): Sp108ePlatformAccessory {
+    const device = this.devices().find(candidate => candidate.id === id) ??
+      this.devices().find(candidate => candidate.name.toLowerCase() === id.toLowerCase());
+    if (!device) {
+      throw new HttpError(404, `Unknown device: ${id}`);
+    }
+    return device;
+  }
+
+  private state(device: Sp108ePlatformAccessory) {
+    const state = device.getState();
+    if (!state) {
+      throw new HttpError(503, 'The controller has not answered yet');
+    }
+    return state;
+  }
+
+  private send(response: http.ServerResponse, statusCode: number, body: unknown) {
+    if (body === undefined) {
+      response.writeHead(statusCode);
+      response.end();
+      return;
+    }
+    response.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+}
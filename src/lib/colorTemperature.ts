@@ -0,0 +1,117 @@
+/**
+ * Color temperature support
+ * Maps HomeKit color temperatures (mired) to RGB colors using a per-device calibration table of white points,
+ * and back when the color is polled from the controller.
+ */
+import colorConvert from 'color-convert';
+
+// HomeKit ColorTemperature range
+export const MIN_MIRED = 140;
+export const MAX_MIRED = 500;
+
+// max RGB distance (per channel) for a polled color to still count as a white point
+const MATCH_TOLERANCE = 6;
+
+export interface WhitePoint {
+  mired: number;
+  color: string;
+}
+
+export interface RgbwColor {
+  color: string;
+  // white channel brightness in percent
+  white: number;
+}
+
+/**
+ * Uncalibrated defaults, 7100K (cold) to 2000K (warm). The warm white is the value verified on a real strip,
+ * the others approximate the black body curve.
+ */
+export const DEFAULT_WHITE_POINTS: WhitePoint[] = [
+  { mired: 140, color: 'f3f2ff' },
+  { mired: 153, color: 'fff9fd' },
+  { mired: 200, color: 'ffe4ce' },
+  { mired: 250, color: 'ffd1a3' },
+  { mired: 370, color: 'ffa957' },
+  { mired: 500, color: 'ff6717' },
+];
+
+// color temperature of the white LEDs of RGBW strips, 4000K
+export const DEFAULT_WHITE_CHANNEL_MIRED = 250;
+
+const clampMired = (mired: number) => Math.min(Math.max(Math.round(mired), MIN_MIRED), MAX_MIRED);
+
+/**
+ * Validates and sorts a calibration table from the config, falls back to the defaults
+ */
+export const parseWhitePoints = (config): WhitePoint[] => {
+  const whitePoints = (Array.isArray(config) ? config : [])
+    .filter(point => Number.isFinite(point?.mired) && typeof point?.color === 'string' && /^#?[0-9a-f]{6}$/i.test(point.color))
+    .map(point => ({ mired: clampMired(point.mired), color: point.color.replace('#', '').toLowerCase() }))
+    .sort((a, b) => a.mired - b.mired);
+
+  return whitePoints.length >= 2 ? whitePoints : DEFAULT_WHITE_POINTS;
+};
+
+/**
+ * Interpolates the RGB color of a color temperature between the surrounding white points
+ */
+export const miredToRgb = (mired: number, whitePoints: WhitePoint[] = DEFAULT_WHITE_POINTS): string => {
+  const target = clampMired(mired);
+  const upper = whitePoints.findIndex(point => point.mired >= target);
+  if (upper === -1) {
+    return whitePoints[whitePoints.length - 1].color;
+  }
+  if (upper === 0 || whitePoints[upper].mired === target) {
+    return whitePoints[upper].color;
+  }
+
+  const from = whitePoints[upper - 1];
+  const to = whitePoints[upper];
+  const ratio = (target - from.mired) / (to.mired - from.mired);
+  const [r1, g1, b1] = colorConvert.hex.rgb(from.color);
+  const [r2, g2, b2] = colorConvert.hex.rgb(to.color);
+  return colorConvert.rgb.hex([
+    Math.round(r1 + (r2 - r1) * ratio),
+    Math.round(g1 + (g2 - g1) * ratio),
+    Math.round(b1 + (b2 - b1) * ratio),
+  ]).toLowerCase();
+};
+
+/**
+ * Finds the color temperature whose white point matches a color, undefined for colors that are not white
+ */
+export const rgbToMired = (hexColor: string, whitePoints: WhitePoint[] = DEFAULT_WHITE_POINTS): number | undefined => {
+  const [r, g, b] = colorConvert.hex.rgb(hexColor);
+  let best: { mired: number; distance: number } | undefined;
+
+  for (let mired = whitePoints[0].mired; mired <= whitePoints[whitePoints.length - 1].mired; mired++) {
+    const [wr, wg, wb] = colorConvert.hex.rgb(miredToRgb(mired, whitePoints));
+    const distance = Math.max(Math.abs(r - wr), Math.abs(g - wg), Math.abs(b - wb));
+    if (!best || distance < best.distance) {
+      best = { mired, distance };
+    }
+  }
+
+  return best && best.distance <= MATCH_TOLERANCE ? best.mired : undefined;
+};
+
+/**
+ * Splits a color temperature into RGB and white channel for RGBW strips. Close to the temperature
+ * of the white LEDs only the white channel is used, the further away the more the RGB LEDs tint it.
+ */
+export const miredToRgbw = (
+  mired: number,
+  whitePoints: WhitePoint[] = DEFAULT_WHITE_POINTS,
+  whiteChannelMired = DEFAULT_WHITE_CHANNEL_MIRED,
+): RgbwColor => {
+  const target = clampMired(mired);
+  const range = (MAX_MIRED - MIN_MIRED) / 2;
+  const tint = Math.min(Math.abs(target - whiteChannelMired) / range, 1);
+
+  const [r, g, b] = colorConvert.hex.rgb(miredToRgb(target, whitePoints));
+  return {
+    color: colorConvert.rgb.hex([Math.round(r * tint), Math.round(g * tint), Math.round(b * tint)]).toLowerCase(),
+    white: Math.round((1 - tint) * 100),
+  };
+};
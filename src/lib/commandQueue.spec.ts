@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import { CommandQueue } from './commandQueue';
+
+describe('command queue', () => {
+  it('runs a superseding write in the place of the write it replaces', async () => {
+    const queue = new CommandQueue();
+    const order: string[] = [];
+    const write = (name: string) => async () => {
+      order.push(name);
+      return name;
+    };
+
+    const results = await Promise.all([
+      queue.run(write('running'), { priority: 'write' }),
+      queue.run(write('mode 1'), { priority: 'write', key: 'mode' }),
+      queue.run(write('color'), { priority: 'write', key: 'color' }),
+      queue.run(write('mode 2'), { priority: 'write', key: 'mode' }),
+    ]);
+
+    assert.deepStrictEqual(order, ['running', 'mode 2', 'color']);
+    assert.deepStrictEqual(results, ['running', 'mode 2', 'color', 'mode 2']);
+    assert.strictEqual(queue.stats.droppedWrites, 1);
+  });
+
+  it('runs writes ahead of waiting polls', async () => {
+    const queue = new CommandQueue();
+    const order: string[] = [];
+    const command = (name: string) => async () => {
+      order.push(name);
+    };
+
+    await Promise.all([
+      queue.run(command('poll 1'), { priority: 'poll' }),
+      queue.run(command('poll 2'), { priority: 'poll' }),
+      queue.run(command('write'), { priority: 'write' }),
+    ]);
+    assert.deepStrictEqual(order, ['poll 1', 'write', 'poll 2']);
+  });
+
+  it('lets an identical waiting poll share its result', async () => {
+    const queue = new CommandQueue();
+    let polls = 0;
+    const poll = async () => ++polls;
+
+    const results = await Promise.all([
+      queue.run(async () => 'write', { priority: 'write' }),
+      queue.run(poll, { priority: 'poll', key: 'status' }),
+      queue.run(poll, { priority: 'poll', key: 'status' }),
+      queue.run(poll, { priority: 'poll', key: 'name' }),
+    ]);
+    assert.deepStrictEqual(results, ['write', 1, 1, 2]);
+    assert.strictEqual(queue.stats.collapsedPolls, 1);
+    assert.strictEqual(queue.stats.completed, 3);
+  });
+
+  it('rejects only the callers of a failed command and keeps running', async () => {
+    const queue = new CommandQueue();
+    const failed = queue.run(async () => {
+      throw new Error('No response');
+    }, { priority: 'write' });
+    const next = queue.run(async () => 'ok', { priority: 'poll' });
+
+    await assert.rejects(failed, /No response/);
+    assert.strictEqual(await next, 'ok');
+  });
+
+  it('reports the depth and waiting times', async () => {
+    const queue = new CommandQueue();
+    const slow = queue.run(() => new Promise(resolve => setTimeout(resolve, 30)), { priority: 'poll' });
+    const waiting = [
+      queue.run(async () => undefined, { priority: 'write' }),
+      queue.run(async () => undefined, { priority: 'poll' }),
+    ];
+
+    const { depth, queuedWrites, queuedPolls, running } = queue.stats;
+    assert.deepStrictEqual({ depth, queuedWrites, queuedPolls, running }, { depth: 2, queuedWrites: 1, queuedPolls: 1, running: true });
+    await Promise.all([slow, ...waiting]);
+    assert.strictEqual(queue.stats.depth, 0);
+    assert.strictEqual(queue.stats.running, false);
+    assert.ok(queue.stats.maxWaitMs >= 25);
+  });
+});
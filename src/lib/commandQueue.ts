@@ -0,0 +1,119 @@
+/**
+ * Command queue
+ * Runs the commands of one controller one at a time. Writes go ahead of background polls, a poll queued while an
+ * identical one is still waiting shares its result, and a write queued while a write of the same kind is still
+ * waiting replaces it in its place in the queue (last write wins). Depth and waiting times are kept for debugging.
+ */
+
+export type CommandPriority = 'write' | 'poll';
+
+export interface CommandOptions {
+  priority: CommandPriority;
+  // polls with the same key collapse, writes with the same key supersede each other, no key = always runs
+  key?: string;
+}
+
+export interface CommandQueueStats {
+  // waiting commands, the running one not included
+  depth: number;
+  queuedWrites: number;
+  queuedPolls: number;
+  running: boolean;
+  completed: number;
+  collapsedPolls: number;
+  droppedWrites: number;
+  // time between enqueueing and start of a command, the average decays over the last ~10 commands
+  lastWaitMs: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+}
+
+interface QueuedCommand {
+  options: CommandOptions;
+  task: () => Promise<unknown>;
+  waiters: { resolve: (result: unknown) => void; reject: (err: unknown) => void }[];
+  enqueuedAt: number;
+}
+
+// weight of the latest waiting time in the average
+const WAIT_SMOOTHING = 0.1;
+
+export class CommandQueue {
+  private readonly queue: QueuedCommand[] = [];
+  private running = false;
+  private completed = 0;
+  private collapsedPolls = 0;
+  private droppedWrites = 0;
+  private lastWaitMs = 0;
+  private averageWaitMs = 0;
+  private maxWaitMs = 0;
+
+  /**
+   * Queues a task, resolves with its result, or with the result of the identical poll or newer write that replaced it
+   */
+  run = <T>(task: () => Promise<T>, options: CommandOptions): Promise<T> => {
+    return new Promise<T>((resolve, reject) => {
+      const waiter = { resolve: resolve as (result: unknown) => void, reject };
+      const index = options.key === undefined ? -1 :
+        this.queue.findIndex(queued => queued.options.priority === options.priority && queued.options.key === options.key);
+
+      if (index !== -1 && options.priority === 'poll') {
+        this.collapsedPolls++;
+        this.queue[index].waiters.push(waiter);
+        return;
+      }
+      const command = { options, task, waiters: [waiter], enqueuedAt: Date.now() };
+      if (index !== -1) {
+        // the superseded write is dropped, its callers wait for the one replacing it. The new write takes its place,
+        // so it still runs before the writes queued after the superseded one (e.g. mode before color)
+        this.droppedWrites++;
+        command.waiters.push(...this.queue[index].waiters);
+        this.queue[index] = command;
+      } else {
+        this.queue.push(command);
+      }
+      this.drain();
+    });
+  };
+
+  get stats(): CommandQueueStats {
+    const queuedWrites = this.queue.filter(queued => queued.options.priority === 'write').length;
+    return {
+      depth: this.queue.length,
+      queuedWrites,
+      queuedPolls: this.queue.length - queuedWrites,
+      running: this.running,
+      completed: this.completed,
+      collapsedPolls: this.collapsedPolls,
+      droppedWrites: this.droppedWrites,
+      lastWaitMs: this.lastWaitMs,
+      averageWaitMs: Math.round(this.averageWaitMs),
+      maxWaitMs: this.maxWaitMs,
+    };
+  }
+
+  private async drain() {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    while (this.queue.length > 0) {
+      const writeIndex = this.queue.findIndex(queued => queued.options.priority === 'write');
+      const [next] = this.queue.splice(writeIndex === -1 ? 0 : writeIndex, 1);
+
+      this.lastWaitMs = Date.now() - next.enqueuedAt;
+      this.averageWaitMs = this.completed === 0 ? this.lastWaitMs :
+        this.averageWaitMs + (this.lastWaitMs - this.averageWaitMs) * WAIT_SMOOTHING;
+      this.maxWaitMs = Math.max(this.maxWaitMs, this.lastWaitMs);
+      try {
+        const result = await next.task();
+        next.waiters.forEach(waiter => waiter.resolve(result));
+      } catch (err) {
+        next.waiters.forEach(waiter => waiter.reject(err));
+      } finally {
+        this.completed++;
+      }
+    }
+    this.running = false;
+  }
+}
@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import { migrateConfig, validateDevice, parseAvailableEffects, redactSecrets, CONFIG_VERSION, MAX_AVAILABLE_EFFECTS } from './config';
+import { ANIMATION_MODE_WAVE, PRESET_EFFECT_FLOWING_COLORS, PRESET_EFFECT_RAINBOW } from './animationModes';
+
+const DEVICE = { name: 'Desk', host: '192.168.1.50', port: 8189, chip: 'WS2811', colorOrder: 'GRB', segments: 1, ledsPerSegment: 60 };
+
+describe('config migration', () => {
+  it('renames the keys of version 1 and reports each change', () => {
+    const notices: string[] = [];
+    const devices = [{ name: 'Desk', defaultDreamModeNumber: 3, defaultAnimationNumber: 208 }];
+    const migrated = migrateConfig<Record<string, unknown>>({ devices }, (message) => notices.push(message));
+
+    assert.strictEqual(migrated.configVersion, CONFIG_VERSION);
+    assert.deepStrictEqual(migrated.devices, [{ name: 'Desk', defaultPresetEffect: 3, defaultAnimation: 208 }]);
+    assert.strictEqual(notices.length, 2);
+    // the config passed in stays untouched
+    assert.strictEqual(devices[0].defaultDreamModeNumber, 3);
+  });
+
+  it('keeps the new key when the settings UI left the old one in a current config', () => {
+    const notices: string[] = [];
+    const devices = [{ name: 'Desk', defaultDreamModeNumber: 3, defaultPresetEffect: 5 }];
+    const migrated = migrateConfig<Record<string, unknown>>({ configVersion: CONFIG_VERSION, devices }, (message) => notices.push(message));
+
+    assert.deepStrictEqual(migrated.devices, [{ name: 'Desk', defaultPresetEffect: 5 }]);
+    assert.match(notices[0], /ignored/);
+    assert.deepStrictEqual(migrateConfig(migrated, assert.fail), migrated);
+  });
+
+  it('reports a config written for a newer plugin', () => {
+    const notices: string[] = [];
+    const migrated = migrateConfig({ configVersion: CONFIG_VERSION + 1 }, (message) => notices.push(message));
+    assert.strictEqual(migrated.configVersion, CONFIG_VERSION + 1);
+    assert.strictEqual(notices.length, 1);
+  });
+});
+
+describe('config validation', () => {
+  it('normalizes a device entry', () => {
+    const device = validateDevice(
+      { ...DEVICE, name: ' Desk ', port: '8189', chip: 'ws2811', colorOrder: 'grb', defaultAnimation: 'wave',
+        availableEffects: 'rainbow, 2' },
+      assert.fail,
+      assert.fail,
+    );
+    assert.deepStrictEqual(device, {
+      ...DEVICE, defaultAnimation: ANIMATION_MODE_WAVE, availableEffects: [PRESET_EFFECT_RAINBOW, PRESET_EFFECT_FLOWING_COLORS],
+    });
+  });
+
+  it('rejects a device with invalid required settings and reports each of them', () => {
+    const errors: string[] = [];
+    const device = validateDevice({ ...DEVICE, host: '', chip: 'XYZ', segments: 40 }, (message) => errors.push(message));
+    assert.strictEqual(device, undefined);
+    assert.strictEqual(errors.length, 3);
+    assert.ok(errors.every(error => error.startsWith('Device Desk: ')));
+  });
+
+  it('drops invalid optional settings with a warning', () => {
+    const warnings: string[] = [];
+    const device = validateDevice(
+      { ...DEVICE, defaultPresetEffect: 500, pollInterval: 50, availableEffects: ['Rainbow', 'Nope'] },
+      assert.fail,
+      (message) => warnings.push(message),
+    );
+    assert.strictEqual(device?.defaultPresetEffect, undefined);
+    assert.strictEqual(device?.pollInterval, undefined);
+    assert.deepStrictEqual(device?.availableEffects, [PRESET_EFFECT_RAINBOW]);
+    assert.strictEqual(warnings.length, 3);
+  });
+
+  it('parses preset effects by id or name without duplicates', () => {
+    const invalid: unknown[] = [];
+    assert.deepStrictEqual(parseAvailableEffects([0, 'RAINBOW', '2', 'unknown'], (entry) => invalid.push(entry)), [0, 2]);
+    assert.deepStrictEqual(invalid, ['unknown']);
+  });
+
+  it('redacts secrets at any depth', () => {
+    assert.strictEqual(redactSecrets({ httpApi: { token: 'secret', port: 8108 } }), '{"httpApi":{"token":"***","port":8108}}');
+  });
+
+  it('keeps only the preset effects that fit in the services of an accessory', () => {
+    const warnings: string[] = [];
+    const availableEffects = Array.from({ length: 80 }, (_, preset) => preset);
+    const device = validateDevice({ ...DEVICE, availableEffects }, assert.fail, (message) => warnings.push(message));
+
+    assert.strictEqual(MAX_AVAILABLE_EFFECTS, 73);
+    assert.deepStrictEqual(device?.availableEffects, availableEffects.slice(0, MAX_AVAILABLE_EFFECTS));
+    assert.strictEqual(warnings.length, 1);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Config
+ * Migration of older config shapes and validation of the device entries against the rules of config.schema.json.
+ * Tolerant inputs are normalized: chip types and color orders in any case, effects by name instead of id.
+ */
+import { CHIP_TYPES } from './chipTypes';
+import { COLOR_ORDERS } from './colorOrders';
+import { ANIMATION_MODES, PRESET_EFFECTS, CUSTOM_EFFECTS } from './animationModes';
+
+/**
+ * Version of the config shape the plugin works with, configs without `configVersion` are version 1
+ */
+export const CONFIG_VERSION = 2;
+
+// the controller drives at most 2048 pixels in total
+export const MAX_PIXELS = 2048;
+// HAP-NodeJS accepts 100 services per accessory
+export const MAX_SERVICES = 100;
+// services of every device accessory: information, color light, white light (RGBW), animation speed, dream mode switch,
+// the animation mode, preset and custom effect TVs with the animation mode (without static) and custom effect inputs
+export const DEVICE_BASE_SERVICES = 8 + (Object.keys(ANIMATION_MODES).length - 1) + Object.keys(CUSTOM_EFFECTS).length;
+// each preset is a TV input, the presets get the services that remain
+export const MAX_AVAILABLE_EFFECTS = MAX_SERVICES - DEVICE_BASE_SERVICES;
+export const MIN_POLL_INTERVAL_MS = 500;
+export const MAX_POLL_INTERVAL_MS = 10000;
+
+export interface DeviceConfig {
+  name: string;
+  host: string;
+  port: number;
+  chip: string;
+  colorOrder: string;
+  segments: number;
+  ledsPerSegment: number;
+  defaultAnimation?: number;
+  defaultPresetEffect?: number;
+  availableEffects?: number[];
+  pollInterval?: number;
+  // feature blocks (playlist, scenes, fade, ...) are validated by their own parsers
+  [key: string]: unknown;
+}
+
+type Migration = (config, onNotice: (message: string) => void) => void;
+
+const renameDeviceKey = (device, from: string, to: string, onNotice: (message: string) => void) => {
+  if (!(from in device)) {
+    return;
+  }
+  if (to in device) {
+    onNotice(`${device.name ?? device.host}: "${from}" is replaced by "${to}" and ignored, please remove it`);
+  } else {
+    device[to] = device[from];
+    onNotice(`${device.name ?? device.host}: "${from}" was renamed to "${to}"`);
+  }
+  delete device[from];
+};
+
+/**
+ * MIGRATIONS[n] turns a version n config into version n + 1. Migrations must be idempotent, they run on every
+ * config: the settings UI stores the current configVersion but keeps the keys of older versions.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  1: (config, onNotice) => {
+    for (const device of Array.isArray(config.devices) ? config.devices : []) {
+      if (device instanceof Object) {
+        renameDeviceKey(device, 'defaultDreamModeNumber', 'defaultPresetEffect', onNotice);
+        renameDeviceKey(device, 'defaultAnimationNumber', 'defaultAnimation', onNotice);
+      }
+    }
+  },
+};
+
+/**
+ * Brings a platform config of any older version to CONFIG_VERSION. The config passed in is not modified,
+ * every applied change is reported through onNotice so the user can update config.json.
+ * `configVersion` only tells which shape the config was written for, the migrations don't rely on it.
+ */
+export const migrateConfig = <T extends Record<string, unknown>>(config: T, onNotice: (message: string) => void = () => undefined): T => {
+  const migrated = JSON.parse(JSON.stringify(config ?? {}));
+  const version = Number.isInteger(migrated.configVersion) ? migrated.configVersion : 1;
+  if (version > CONFIG_VERSION) {
+    onNotice(`Config version ${version} is newer than this plugin supports (${CONFIG_VERSION})`);
+  }
+  for (let from = 1; from < CONFIG_VERSION; from++) {
+    MIGRATIONS[from]?.(migrated, onNotice);
+  }
+  migrated.configVersion = Math.max(version, CONFIG_VERSION);
+  return migrated;
+};
+
+const resolveByName = (value: unknown, effects: Record<number, string>): number | undefined => {
+  if (typeof value === 'number' || (typeof value === 'string' && /^\s*\d+\s*$/.test(value))) {
+    const id = Number(value);
+    return effects[id] !== undefined ? id : undefined;
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const name = value.trim().toLowerCase();
+  const found = Object.entries(effects).find(([, effectName]) => effectName.toLowerCase() === name);
+  return found ? Number(found[0]) : undefined;
+};
+
+/**
+ * Parses a list of preset effects, either an array or a comma-separated string of ids or names.
+ * Unknown entries are reported through onInvalid and left out.
+ */
+export const parseAvailableEffects = (value: unknown, onInvalid: (entry: unknown) => void = () => undefined): number[] => {
+  const entries: unknown[] = typeof value === 'string' ? value.split(',').map(entry => entry.trim()).filter(entry => entry !== '') :
+    Array.isArray(value) ? value : [];
+  const effects: number[] = [];
+  for (const entry of entries) {
+    const effect = resolveByName(entry, PRESET_EFFECTS);
+    if (effect === undefined) {
+      onInvalid(entry);
+    } else if (!effects.includes(effect)) {
+      effects.push(effect);
+    }
+  }
+  return effects;
+};
+
+const isInteger = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+const findName = (value: unknown, names: string[]): string | undefined =>
+  typeof value === 'string' ? names.find(name => name.toLowerCase() === value.trim().toLowerCase()) : undefined;
+
+/**
+ * Validates a device entry (after migration) and returns it normalized. Problems with required settings
+ * are reported through onError and the device is rejected, invalid optional settings are reported
+ * through onWarning and fall back to their defaults.
+ */
+export const validateDevice = (
+  config,
+  onError: (message: string) => void,
+  onWarning: (message: string) => void = () => undefined,
+): DeviceConfig | undefined => {
+  if (!(config instanceof Object) || Array.isArray(config)) {
+    onError(`Device entry must be an object: ${JSON.stringify(config)}`);
+    return undefined;
+  }
+  const device = { ...config };
+  const label = typeof device.name === 'string' && device.name.trim() !== '' ? device.name.trim() :
+    typeof device.host === 'string' ? device.host : 'unnamed device';
+  const errors: string[] = [];
+
+  if (typeof device.name !== 'string' || device.name.trim() === '') {
+    errors.push('name is required');
+  } else {
+    device.name = device.name.trim();
+  }
+  if (typeof device.host !== 'string' || device.host.trim() === '') {
+    errors.push('host is required');
+  } else {
+    device.host = device.host.trim();
+  }
+  if (typeof device.port === 'string' && /^\s*\d+\s*$/.test(device.port)) {
+    device.port = Number(device.port);
+  }
+  if (!isInteger(device.port, 1, 65535)) {
+    errors.push(`port must be an integer between 1 and 65535, got ${JSON.stringify(device.port)}`);
+  }
+
+  const chip = findName(device.chip, CHIP_TYPES);
+  if (chip) {
+    device.chip = chip;
+  } else {
+    errors.push(`chip must be one of ${CHIP_TYPES.join(', ')}, got ${JSON.stringify(device.chip)}`);
+  }
+  const colorOrder = findName(device.colorOrder, COLOR_ORDERS);
+  if (colorOrder) {
+    device.colorOrder = colorOrder;
+  } else {
+    errors.push(`colorOrder must be one of ${COLOR_ORDERS.join(', ')}, got ${JSON.stringify(device.colorOrder)}`);
+  }
+
+  for (const key of ['segments', 'ledsPerSegment']) {
+    if (!isInteger(device[key], 1, MAX_PIXELS)) {
+      errors.push(`${key} must be an integer between 1 and ${MAX_PIXELS}, got ${JSON.stringify(device[key])}`);
+    }
+  }
+  if (isInteger(device.segments, 1, MAX_PIXELS) && isInteger(device.ledsPerSegment, 1, MAX_PIXELS) &&
+    device.segments * device.ledsPerSegment > MAX_PIXELS) {
+    errors.push(`segments x ledsPerSegment must not exceed ${MAX_PIXELS} pixels, got ${device.segments * device.ledsPerSegment}`);
+  }
+
+  if (errors.length > 0) {
+    errors.forEach(error => onError(`Device ${label}: ${error}`));
+    return undefined;
+  }
+
+  if (device.defaultAnimation !== undefined) {
+    const animation = resolveByName(device.defaultAnimation, ANIMATION_MODES);
+    if (animation === undefined) {
+      onWarning(`Device ${label}: defaultAnimation is not an animation mode (205-212): ${JSON.stringify(device.defaultAnimation)}`);
+      delete device.defaultAnimation;
+    } else {
+      device.defaultAnimation = animation;
+    }
+  }
+  if (device.defaultPresetEffect !== undefined) {
+    const preset = resolveByName(device.defaultPresetEffect, PRESET_EFFECTS);
+    if (preset === undefined) {
+      onWarning(`Device ${label}: defaultPresetEffect is not a preset effect (0-179): ${JSON.stringify(device.defaultPresetEffect)}`);
+      delete device.defaultPresetEffect;
+    } else {
+      device.defaultPresetEffect = preset;
+    }
+  }
+  if (device.availableEffects !== undefined && device.availableEffects !== '') {
+    const effects = parseAvailableEffects(device.availableEffects, (entry) => {
+      onWarning(`Device ${label}: availableEffects entry not found in PRESET_EFFECTS: ${JSON.stringify(entry)}`);
+    });
+    if (effects.length > MAX_AVAILABLE_EFFECTS) {
+      onWarning(`Device ${label}: availableEffects has ${effects.length} effects, only the first ${MAX_AVAILABLE_EFFECTS} are used ` +
+        `(HomeKit accepts ${MAX_SERVICES} services per accessory)`);
+    }
+    device.availableEffects = effects.slice(0, MAX_AVAILABLE_EFFECTS);
+  } else {
+    delete device.availableEffects;
+  }
+  if (device.pollInterval !== undefined && !isInteger(device.pollInterval, MIN_POLL_INTERVAL_MS, MAX_POLL_INTERVAL_MS)) {
+    onWarning(`Device ${label}: pollInterval must be an integer between ${MIN_POLL_INTERVAL_MS} and ${MAX_POLL_INTERVAL_MS} ms, ` +
+      `got ${JSON.stringify(device.pollInterval)}`);
+    delete device.pollInterval;
+  }
+
+  return device as DeviceConfig;
+};
+
+// config keys whose values must never show up in the log
+const SECRET_KEYS = ['token', 'password'];
+
+/**
+ * JSON of a config object for the log, with the values of secret keys (at any depth) replaced
+ */
+export const redactSecrets = (config: unknown): string => {
+  return JSON.stringify(config, (key, value) => SECRET_KEYS.includes(key) && value !== undefined && value !== '' ? '***' : value);
+};
+
+/**
+ * A broker or server url for the log, without the password of its userinfo part
+ */
+export const redactUrl = (url: string): string => {
+  return url.replace(/^([a-z][a-z0-9+.-]*:\/\/[^:@/]*):[^@/]*@/i, '$1:***@');
+};
@@ -0,0 +1,120 @@
+/**
+ * Connection health
+ * Tracks the outcome of the requests to a controller as online / degraded / offline and acts as a circuit breaker:
+ * while offline, requests are rejected without touching the network except for probes at growing intervals.
+ */
+import { EventEmitter } from 'events';
+
+export type HealthState = 'online' | 'degraded' | 'offline';
+
+export interface ConnectionHealthOptions {
+  // consecutive failed requests before the controller counts as offline
+  offlineAfterFailures?: number;
+  // first and longest interval between probes while offline
+  minProbeIntervalMs?: number;
+  maxProbeIntervalMs?: number;
+}
+
+const DEFAULT_OFFLINE_AFTER_FAILURES = 3;
+const DEFAULT_MIN_PROBE_INTERVAL_MS = 2000;
+const DEFAULT_MAX_PROBE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Raised instead of sending a request while the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(public readonly retryAt: number) {
+    super('Device is offline, next probe at ' + new Date(retryAt).toISOString());
+    this.name = 'CircuitOpenError';
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+  }
+}
+
+/**
+ * Emits 'change' (state, previousState, lastError) on every state transition
+ */
+export class ConnectionHealth extends EventEmitter {
+  private _state: HealthState = 'online';
+  private failures = 0;
+  private probeInterval: number;
+  private nextProbeAt = 0;
+  private _lastError?: unknown;
+
+  private readonly offlineAfterFailures: number;
+  private readonly minProbeIntervalMs: number;
+  private readonly maxProbeIntervalMs: number;
+
+  constructor(options: ConnectionHealthOptions = {}) {
+    super();
+    this.offlineAfterFailures = Math.max(1, options.offlineAfterFailures ?? DEFAULT_OFFLINE_AFTER_FAILURES);
+    this.minProbeIntervalMs = options.minProbeIntervalMs ?? DEFAULT_MIN_PROBE_INTERVAL_MS;
+    this.maxProbeIntervalMs = Math.max(this.minProbeIntervalMs, options.maxProbeIntervalMs ?? DEFAULT_MAX_PROBE_INTERVAL_MS);
+    this.probeInterval = this.minProbeIntervalMs;
+  }
+
+  get state(): HealthState {
+    return this._state;
+  }
+
+  get lastError(): unknown {
+    return this._lastError;
+  }
+
+  /**
+   * Throws a CircuitOpenError when the controller is offline and no probe is due.
+   * A due probe is let through and the next one is scheduled with a doubled interval.
+   */
+  checkCircuit = () => {
+    if (this._state !== 'offline') {
+      return;
+    }
+    if (Date.now() < this.nextProbeAt) {
+      throw new CircuitOpenError(this.nextProbeAt);
+    }
+    this.scheduleProbe();
+  };
+
+  recordSuccess = () => {
+    this.failures = 0;
+    this.probeInterval = this.minProbeIntervalMs;
+    this.nextProbeAt = 0;
+    this._lastError = undefined;
+    this.setState('online');
+  };
+
+  recordFailure = (err: unknown) => {
+    this.failures++;
+    this._lastError = err;
+    if (this._state === 'offline') {
+      return;
+    }
+    if (this.failures >= this.offlineAfterFailures) {
+      this.scheduleProbe();
+      this.setState('offline');
+    } else {
+      this.setState('degraded');
+    }
+  };
+
+  /**
+   * Lets the next request through, e.g. after the controller has been found on a new address
+   */
+  probeNow = () => {
+    this.nextProbeAt = 0;
+    this.probeInterval = this.minProbeIntervalMs;
+  };
+
+  private scheduleProbe() {
+    this.nextProbeAt = Date.now() + this.probeInterval;
+    this.probeInterval = Math.min(this.probeInterval * 2, this.maxProbeIntervalMs);
+  }
+
+  private setState(state: HealthState) {
+    if (state === this._state) {
+      return;
+    }
+    const previous = this._state;
+    this._state = state;
+    this.emit('change', state, previous, this._lastError);
+  }
+}
@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { parseCron, cronMatches } from './cron';
+
+const at = (year: number, month: number, day: number, hour: number, minute: number) => new Date(year, month - 1, day, hour, minute);
+
+describe('cron expressions', () => {
+  it('parses lists, ranges, steps and names', () => {
+    const cron = parseCron('*/15 8-10 1,15 jan-mar mon-fri');
+    assert.deepStrictEqual([...cron.minutes], [0, 15, 30, 45]);
+    assert.deepStrictEqual([...cron.hours], [8, 9, 10]);
+    assert.deepStrictEqual([...cron.daysOfMonth], [1, 15]);
+    assert.deepStrictEqual([...cron.months], [1, 2, 3]);
+    assert.deepStrictEqual([...cron.daysOfWeek], [1, 2, 3, 4, 5]);
+  });
+
+  it('starts a step at the given value and treats 7 as Sunday', () => {
+    assert.deepStrictEqual([...parseCron('5/20 * * * *').minutes], [5, 25, 45]);
+    assert.ok(parseCron('0 0 * * 7').daysOfWeek.has(0));
+  });
+
+  it('rejects invalid expressions', () => {
+    assert.throws(() => parseCron('0 0 * *'), /Expected 5 fields/);
+    assert.throws(() => parseCron('60 * * * *'), /Invalid minute/);
+    assert.throws(() => parseCron('0 10-8 * * *'), /Invalid range of hour/);
+    assert.throws(() => parseCron('*/0 * * * *'), /Invalid step of minute/);
+    assert.throws(() => parseCron('0 0 * foo *'), /Invalid month/);
+  });
+
+  it('matches the local minute', () => {
+    const cron = parseCron('30 7 * * mon-fri');
+    // Monday 2024-06-17
+    assert.ok(cronMatches(cron, at(2024, 6, 17, 7, 30)));
+    assert.ok(!cronMatches(cron, at(2024, 6, 17, 7, 31)));
+    // Saturday
+    assert.ok(!cronMatches(cron, at(2024, 6, 22, 7, 30)));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // the 1st of the month or any Friday
+    const cron = parseCron('0 12 1 * fri');
+    assert.ok(cronMatches(cron, at(2024, 6, 1, 12, 0)));
+    assert.ok(cronMatches(cron, at(2024, 6, 21, 12, 0)));
+    assert.ok(!cronMatches(cron, at(2024, 6, 20, 12, 0)));
+  });
+});
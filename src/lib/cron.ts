@@ -0,0 +1,107 @@
+/**
+ * Cron expressions
+ * The five classic fields "minute hour day-of-month month day-of-week" with *, lists (1,15), ranges (1-5), steps (*\/10)
+ * and three-letter month and weekday names. Day of week 0 and 7 are Sunday.
+ */
+
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // classic cron: when both day fields are restricted, either of them matches
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+];
+
+const parseValue = (token: string, field: typeof FIELDS[number]): number => {
+  const nameIndex = field.names?.indexOf(token.toLowerCase()) ?? -1;
+  const value = nameIndex !== -1 ? nameIndex + (field.nameOffset ?? 0) : Number(token);
+  if (!Number.isInteger(value) || value < field.min || value > field.max) {
+    throw new Error(`Invalid ${field.name}: ${token}`);
+  }
+  return value;
+};
+
+const parseField = (text: string, field: typeof FIELDS[number]): Set<number> => {
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step of ${field.name}: ${part}`);
+    }
+
+    let from: number;
+    let to: number;
+    if (range === '*') {
+      from = field.min;
+      to = field.max;
+    } else if (range.includes('-')) {
+      const [start, end] = range.split('-');
+      from = parseValue(start, field);
+      to = parseValue(end, field);
+    } else {
+      from = parseValue(range, field);
+      // "5/15" means every 15 starting at 5
+      to = stepText === undefined ? from : field.max;
+    }
+    if (from > to) {
+      throw new Error(`Invalid range of ${field.name}: ${part}`);
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+};
+
+/**
+ * @throws when the expression is invalid
+ */
+export const parseCron = (expression: string): CronExpression => {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error(`Expected ${FIELDS.length} fields (minute hour day-of-month month day-of-week): ${expression}`);
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i]));
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+  }
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: parts[2] !== '*',
+    daysOfWeekRestricted: parts[4] !== '*',
+  };
+};
+
+/**
+ * Whether the expression matches the local minute of `date`
+ */
+export const cronMatches = (cron: CronExpression, date: Date): boolean => {
+  if (!cron.minutes.has(date.getMinutes()) || !cron.hours.has(date.getHours()) || !cron.months.has(date.getMonth() + 1)) {
+    return false;
+  }
+  const dayOfMonth = cron.daysOfMonth.has(date.getDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getDay());
+  if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+};
@@ -0,0 +1,192 @@
+/**
+ * SP108E network discovery
+ * Scans IPv4 subnets for hosts accepting connections on the controller port and fingerprints
+ * every responder with GET_NAME / GET_STATUS before reporting it.
+ */
+import * as net from 'net';
+import * as os from 'os';
+import { encodeFrame, decodeName, decodeStatus, sp108eStatus, STATUS_RESPONSE_LENGTH, NAME_RESPONSE_LENGTH } from './protocol';
+
+export const DEFAULT_PORT = 8189;
+const DEFAULT_TIMEOUT_MS = 1000;
+const DEFAULT_CONCURRENCY = 32;
+// larger subnets take too long to scan with plain TCP connects
+const MIN_PREFIX_LENGTH = 20;
+
+export interface DiscoveryOptions {
+  subnets?: string[];
+  port?: number;
+  timeout?: number;
+  concurrency?: number;
+}
+
+export interface DiscoveredDevice {
+  host: string;
+  port: number;
+  name?: string;
+  status: sp108eStatus;
+}
+
+const ipToInt = (ip: string): number => {
+  const octets = ip.split('.').map(octet => parseInt(octet, 10));
+  if (octets.length !== 4 || octets.some(octet => !Number.isInteger(octet) || octet < 0 || octet > 255)) {
+    throw new Error('Invalid IPv4 address: ' + ip);
+  }
+  return ((octets[0] << 24) >>> 0) + (octets[1] << 16) + (octets[2] << 8) + octets[3];
+};
+
+const intToIp = (int: number): string => {
+  return [int >>> 24, (int >>> 16) & 0xff, (int >>> 8) & 0xff, int & 0xff].join('.');
+};
+
+/**
+ * Expands a CIDR subnet (e.g. "192.168.1.0/24") to the list of its host addresses
+ */
+export const expandSubnet = (subnet: string): string[] => {
+  const [address, prefix = '32'] = subnet.trim().split('/');
+  const prefixLength = parseInt(prefix, 10);
+  if (!Number.isInteger(prefixLength) || prefixLength < MIN_PREFIX_LENGTH || prefixLength > 32) {
+    throw new Error(`Invalid subnet ${subnet}: prefix length must be ${MIN_PREFIX_LENGTH}-32`);
+  }
+
+  if (prefixLength === 32) {
+    return [intToIp(ipToInt(address))];
+  }
+
+  const size = 2 ** (32 - prefixLength);
+  const network = ipToInt(address) - (ipToInt(address) % size);
+  const hosts: string[] = [];
+  // skip network and broadcast addresses
+  for (let i = 1; i < size - 1; i++) {
+    hosts.push(intToIp(network + i));
+  }
+  return hosts;
+};
+
+/**
+ * The /24 subnets of all external IPv4 interfaces of this machine
+ */
+export const localSubnets = (): string[] => {
+  const subnets = new Set<string>();
+  for (const addresses of Object.values(os.networkInterfaces())) {
+    for (const address of addresses ?? []) {
+      if (address.family === 'IPv4' && !address.internal) {
+        subnets.add(address.address.replace(/\.\d+$/, '.0/24'));
+      }
+    }
+  }
+  return [...subnets];
+};
+
+/**
+ * Writes a request frame and resolves with exactly `length` bytes of reply
+ */
+const request = (socket: net.Socket, frame: Buffer, length: number, timeout: number): Promise<Buffer> => {
+  return new Promise<Buffer>((resolve, reject) => {
+    let response = Buffer.alloc(0);
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      socket.removeListener('data', onData);
+      socket.removeListener('error', onError);
+      socket.removeListener('close', onClose);
+    };
+    const onData = (data: Buffer) => {
+      response = Buffer.concat([response, data]);
+      if (response.length >= length) {
+        cleanup();
+        resolve(response.slice(0, length));
+      }
+    };
+    const onError = (err: Error) => {
+      cleanup();
+      reject(err);
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error('connection closed'));
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error('read timeout'));
+    }, timeout);
+
+    socket.on('data', onData);
+    socket.once('error', onError);
+    socket.once('close', onClose);
+    socket.write(frame);
+  });
+};
+
+const connect = (host: string, port: number, timeout: number): Promise<net.Socket> => {
+  return new Promise<net.Socket>((resolve, reject) => {
+    const socket = net.connect({ host, port });
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(new Error('connect timeout'));
+    }, timeout);
+
+    socket.once('connect', () => {
+      clearTimeout(timer);
+      socket.removeAllListeners('error');
+      resolve(socket);
+    });
+    socket.once('error', (err) => {
+      clearTimeout(timer);
+      socket.destroy();
+      reject(err);
+    });
+  });
+};
+
+/**
+ * Connects to a single host and checks whether it answers like an SP108E
+ * @returns the fingerprinted controller, undefined when the host is not a controller
+ */
+export const probeHost = async (host: string, port = DEFAULT_PORT, timeout = DEFAULT_TIMEOUT_MS): Promise<DiscoveredDevice | undefined> => {
+  let socket: net.Socket | undefined;
+  try {
+    socket = await connect(host, port, timeout);
+    socket.on('error', () => undefined);
+
+    const status = decodeStatus(await request(socket, encodeFrame('GET_STATUS'), STATUS_RESPONSE_LENGTH, timeout));
+
+    // the name is informative only, older firmwares don't answer it
+    let name: string | undefined;
+    try {
+      name = decodeName(await request(socket, encodeFrame('GET_NAME'), NAME_RESPONSE_LENGTH, timeout));
+    } catch (_) { /* ignore */ }
+
+    return { host, port, name, status };
+  } catch (_) {
+    return undefined;
+  } finally {
+    socket?.destroy();
+  }
+};
+
+/**
+ * Scans the given subnets (defaults to the local /24 subnets) and resolves with all found controllers
+ */
+export const discover = async (options: DiscoveryOptions = {}): Promise<DiscoveredDevice[]> => {
+  const subnets = options.subnets && options.subnets.length > 0 ? options.subnets : localSubnets();
+  const port = options.port ?? DEFAULT_PORT;
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT_MS;
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+
+  const hosts = [...new Set(subnets.reduce<string[]>((all, subnet) => all.concat(expandSubnet(subnet)), []))];
+  const found: DiscoveredDevice[] = [];
+
+  let next = 0;
+  const worker = async () => {
+    while (next < hosts.length) {
+      const device = await probeHost(hosts[next++], port, timeout);
+      if (device) {
+        found.push(device);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, hosts.length) }, worker));
+
+  return found.sort((a, b) => ipToInt(a.host) - ipToInt(b.host));
+};
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import { FrameReader } from './frameReader';
+import { FRAME_HEADER, FRAME_TRAILER } from './protocol';
+
+const frame = (...payload: number[]) => Buffer.from([FRAME_HEADER, ...payload, FRAME_TRAILER]);
+
+describe('frame reader', () => {
+  let discarded: string[];
+  let reader: FrameReader;
+
+  beforeEach(() => {
+    discarded = [];
+    reader = new FrameReader((_, reason) => discarded.push(reason));
+  });
+
+  it('assembles a reply from chunks', async () => {
+    const reply = reader.expect(4, 1000);
+    reader.push(Buffer.from([FRAME_HEADER, 0x01]));
+    reader.push(Buffer.from([0x02, FRAME_TRAILER]));
+    assert.deepStrictEqual(await reply, frame(0x01, 0x02));
+    assert.deepStrictEqual(discarded, []);
+  });
+
+  it('skips bytes before the header', async () => {
+    const reply = reader.expect(4, 1000);
+    reader.push(Buffer.concat([Buffer.from([0x00, 0xff]), frame(0x01, 0x02)]));
+    assert.deepStrictEqual(await reply, frame(0x01, 0x02));
+    assert.deepStrictEqual(discarded, ['no frame header']);
+  });
+
+  it('resynchronizes on the next header when the trailer is wrong', async () => {
+    const reply = reader.expect(4, 1000);
+    // a header byte inside the payload of a broken frame, the real frame follows
+    reader.push(Buffer.concat([Buffer.from([FRAME_HEADER, FRAME_HEADER, 0x00]), frame(0x05, 0x06)]));
+    assert.deepStrictEqual(await reply, frame(0x05, 0x06));
+    assert.ok(discarded.includes('no frame trailer'));
+  });
+
+  it('discards bytes received while no reply is expected', async () => {
+    reader.push(frame(0x01, 0x02));
+    assert.deepStrictEqual(discarded, ['no reply expected']);
+
+    const reply = reader.expect(4, 1000);
+    reader.push(frame(0x03, 0x04));
+    assert.deepStrictEqual(await reply, frame(0x03, 0x04));
+  });
+
+  it('discards the rest of a late reply before the next request', async () => {
+    const first = reader.expect(4, 20);
+    reader.push(Buffer.from([FRAME_HEADER, 0x01]));
+    await assert.rejects(first, /timeout/);
+
+    const second = reader.expect(4, 1000);
+    reader.push(Buffer.from([0x02, FRAME_TRAILER]));
+    reader.push(frame(0x03, 0x04));
+    assert.deepStrictEqual(await second, frame(0x03, 0x04));
+  });
+
+  it('fails the waiting request on reset and when superseded', async () => {
+    const superseded = reader.expect(4, 1000);
+    const reset = reader.expect(4, 1000);
+    reader.reset(new Error('Socket closed'));
+    await assert.rejects(superseded, /Superseded/);
+    await assert.rejects(reset, /Socket closed/);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Frame reader
+ * Buffers the bytes received on the persistent socket and cuts them into reply frames (header, expected length, trailer).
+ * Only the request currently waiting for its reply gets a frame: bytes received while no reply is expected,
+ * before the header, or in a frame with the wrong trailer are discarded, so a late or unsolicited packet
+ * can't shift the replies of later requests.
+ */
+import { FRAME_HEADER, FRAME_TRAILER } from './protocol';
+
+interface PendingReply {
+  length: number;
+  resolve: (frame: Buffer) => void;
+  reject: (err: unknown) => void;
+  timer: NodeJS.Timeout;
+}
+
+export class FrameReader {
+  private buffer = Buffer.alloc(0);
+  private pending?: PendingReply;
+
+  /**
+   * @param {function} onDiscard called with the discarded bytes and the reason, e.g. for debug logging
+   */
+  constructor(private readonly onDiscard: (data: Buffer, reason: string) => void = () => undefined) {
+  }
+
+  /**
+   * Waits for the reply frame of the request about to be sent, call it before writing the request.
+   * Bytes buffered so far belong to earlier requests and are discarded.
+   * @throws on timeout or when the connection is reset before the reply is complete
+   */
+  expect = (length: number, timeoutMs: number): Promise<Buffer> => {
+    this.settle(new Error('Superseded by a newer request'));
+    this.discard(this.buffer.length, 'received before the request');
+
+    return new Promise<Buffer>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending = undefined;
+        this.discard(this.buffer.length, 'incomplete reply');
+        reject(new Error('send() read timeout'));
+      }, timeoutMs);
+      this.pending = { length, resolve, reject, timer };
+    });
+  };
+
+  /**
+   * Feeds bytes received on the socket
+   */
+  push = (chunk: Buffer) => {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    this.extract();
+  };
+
+  /**
+   * Drops the buffered bytes and fails the waiting request, e.g. when the socket closed
+   */
+  reset = (reason: Error) => {
+    this.settle(reason);
+    this.buffer = Buffer.alloc(0);
+  };
+
+  private extract() {
+    while (this.pending) {
+      const { length } = this.pending;
+      const start = this.buffer.indexOf(FRAME_HEADER);
+      if (start === -1) {
+        this.discard(this.buffer.length, 'no frame header');
+        return;
+      }
+      this.discard(start, 'no frame header');
+      if (this.buffer.length < length) {
+        // the rest of the frame is still on its way
+        return;
+      }
+      if (this.buffer[length - 1] !== FRAME_TRAILER) {
+        // not a frame start after all, resynchronize on the next header
+        this.discard(1, 'no frame trailer');
+        continue;
+      }
+
+      const frame = this.buffer.slice(0, length);
+      this.buffer = this.buffer.slice(length);
+      this.settle(undefined, frame);
+    }
+    this.discard(this.buffer.length, 'no reply expected');
+  }
+
+  private settle(err?: unknown, frame?: Buffer) {
+    const pending = this.pending;
+    if (!pending) {
+      return;
+    }
+    this.pending = undefined;
+    clearTimeout(pending.timer);
+    if (frame) {
+      pending.resolve(frame);
+    } else {
+      pending.reject(err);
+    }
+  }
+
+  private discard(length: number, reason: string) {
+    if (length <= 0) {
+      return;
+    }
+    this.onDiscard(this.buffer.slice(0, length), reason);
+    this.buffer = this.buffer.slice(length);
+  }
+}
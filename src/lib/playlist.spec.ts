@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import { EffectPlaylist, PlaylistEntry, parsePlaylistEntries, resolveEffect } from './playlist';
+import { ANIMATION_MODE_WAVE, PRESET_EFFECT_FLOWING_COLORS, PRESET_EFFECT_RAINBOW } from './animationModes';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('effect playlist', () => {
+  it('resolves effects by id or name', () => {
+    assert.deepStrictEqual(resolveEffect(PRESET_EFFECT_RAINBOW), { type: 'preset', effect: PRESET_EFFECT_RAINBOW });
+    assert.deepStrictEqual(resolveEffect('flowing colors'), { type: 'preset', effect: PRESET_EFFECT_FLOWING_COLORS });
+    assert.deepStrictEqual(resolveEffect(' Wave '), { type: 'animation', effect: ANIMATION_MODE_WAVE });
+    assert.deepStrictEqual(resolveEffect(String(ANIMATION_MODE_WAVE)), { type: 'animation', effect: ANIMATION_MODE_WAVE });
+    assert.strictEqual(resolveEffect('Disco'), undefined);
+    assert.strictEqual(resolveEffect(190), undefined);
+  });
+
+  it('parses the entries with the default duration and reports invalid ones', () => {
+    const invalid: unknown[] = [];
+    const entries = parsePlaylistEntries({
+      defaultDuration: 30,
+      entries: [{ effect: 'Rainbow' }, { effect: 'Wave', duration: 10, speed: 150 }, { effect: 'Disco' }],
+    }, (entry) => invalid.push(entry));
+
+    assert.deepStrictEqual(entries, [
+      { type: 'preset', effect: PRESET_EFFECT_RAINBOW, duration: 30, speed: undefined },
+      { type: 'animation', effect: ANIMATION_MODE_WAVE, duration: 10, speed: 100 },
+    ]);
+    assert.deepStrictEqual(invalid, [{ effect: 'Disco' }]);
+  });
+
+  it('plays the entries in order and starts over until stopped', async () => {
+    const entries = parsePlaylistEntries({ defaultDuration: 0.03, entries: [{ effect: 'Rainbow' }, { effect: 'Wave' }] });
+    const played: number[] = [];
+    const playlist = new EffectPlaylist({ entries }, async (entry) => {
+      played.push(entry.effect);
+    });
+
+    playlist.start();
+    assert.ok(playlist.running);
+    while (played.length < 3) {
+      await delay(5);
+    }
+    playlist.stop();
+    assert.ok(!playlist.running);
+    assert.deepStrictEqual(played, [PRESET_EFFECT_RAINBOW, ANIMATION_MODE_WAVE, PRESET_EFFECT_RAINBOW]);
+
+    await delay(50);
+    assert.strictEqual(played.length, 3);
+  });
+
+  it('shuffles each round without repeating the last entry', async () => {
+    const entries: PlaylistEntry[] = [0, 1, 2].map(effect => ({ type: 'preset', effect, duration: 0.005 }));
+    const played: number[] = [];
+    const playlist = new EffectPlaylist({ entries, shuffle: true }, async (entry) => {
+      played.push(entry.effect);
+    });
+
+    playlist.start();
+    await delay(200);
+    playlist.stop();
+    assert.ok(played.length >= 6);
+    for (let round = 0; round + 3 <= played.length; round += 3) {
+      assert.deepStrictEqual(played.slice(round, round + 3).sort(), [0, 1, 2]);
+    }
+    assert.ok(played.every((effect, i) => i === 0 || effect !== played[i - 1]));
+  });
+
+  it('reports errors of an entry and keeps playing', async () => {
+    const entries = parsePlaylistEntries({ defaultDuration: 0.02, entries: [{ effect: 'Rainbow' }] });
+    const errors: unknown[] = [];
+    let played = 0;
+    const playlist = new EffectPlaylist({ entries }, async () => {
+      played++;
+      throw new Error('No response');
+    }, (err) => errors.push(err));
+
+    playlist.start();
+    await delay(50);
+    playlist.stop();
+    assert.ok(played >= 2);
+    assert.strictEqual(errors.length, played);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Host-side effect playlists
+ * Rotates through a list of preset effects / animation modes, the firmware can only cycle through all presets.
+ */
+import { ANIMATION_MODES, PRESET_EFFECTS } from './animationModes';
+
+const DEFAULT_DURATION_SECONDS = 60;
+// longer delays overflow setTimeout and fire immediately
+const MAX_TIMER_MS = 2147483647;
+
+export type PlaylistEffectType = 'preset' | 'animation';
+
+export interface PlaylistEntry {
+  type: PlaylistEffectType;
+  effect: number;
+  // seconds the entry is shown
+  duration: number;
+  // animation speed in percent, unchanged when not set
+  speed?: number;
+}
+
+export interface PlaylistOptions {
+  entries: PlaylistEntry[];
+  shuffle?: boolean;
+}
+
+/**
+ * Resolves an effect given as id or name (case insensitive) of PRESET_EFFECTS / ANIMATION_MODES
+ */
+export const resolveEffect = (effect: number | string): { type: PlaylistEffectType; effect: number } | undefined => {
+  const id = typeof effect === 'number' ? effect : parseInt(effect, 10);
+  if (Number.isInteger(id)) {
+    if (typeof PRESET_EFFECTS[id] !== 'undefined') {
+      return { type: 'preset', effect: id };
+    }
+    if (typeof ANIMATION_MODES[id] !== 'undefined') {
+      return { type: 'animation', effect: id };
+    }
+    return undefined;
+  }
+
+  const name = String(effect).trim().toLowerCase();
+  const preset = Object.entries(PRESET_EFFECTS).find(([, presetName]) => presetName.toLowerCase() === name);
+  if (preset) {
+    return { type: 'preset', effect: parseInt(preset[0], 10) };
+  }
+  const animation = Object.entries(ANIMATION_MODES).find(([, animationName]) => animationName.toLowerCase() === name);
+  if (animation) {
+    return { type: 'animation', effect: parseInt(animation[0], 10) };
+  }
+  return undefined;
+};
+
+/**
+ * Parses the playlist entries of a device config, invalid entries are reported through `onInvalid`
+ */
+export const parsePlaylistEntries = (config, onInvalid: (entry) => void = () => undefined): PlaylistEntry[] => {
+  const entries: PlaylistEntry[] = [];
+  const defaultDuration = Number(config?.defaultDuration) > 0 ? Number(config.defaultDuration) : DEFAULT_DURATION_SECONDS;
+
+  for (const entry of Array.isArray(config?.entries) ? config.entries : []) {
+    const resolved = resolveEffect(entry?.effect);
+    if (!resolved) {
+      onInvalid(entry);
+      continue;
+    }
+    entries.push({
+      ...resolved,
+      duration: Number(entry.duration) > 0 ? Number(entry.duration) : defaultDuration,
+      speed: typeof entry.speed === 'number' ? Math.min(Math.max(entry.speed, 0), 100) : undefined,
+    });
+  }
+  return entries;
+};
+
+/**
+ * Plays the entries in order (or shuffled) until stopped, calling `apply` for each entry
+ */
+export class EffectPlaylist {
+  private timer?: NodeJS.Timeout;
+  private order: PlaylistEntry[] = [];
+  private position = 0;
+
+  constructor(
+    private readonly options: PlaylistOptions,
+    private readonly apply: (entry: PlaylistEntry) => Promise<void>,
+    private readonly onError: (err: unknown) => void = () => undefined,
+  ) {
+  }
+
+  get running(): boolean {
+    return this.timer !== undefined;
+  }
+
+  start = () => {
+    if (this.running || this.options.entries.length === 0) {
+      return;
+    }
+    this.order = this.nextRound();
+    this.position = 0;
+    this.playNext();
+  };
+
+  stop = () => {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = undefined;
+  };
+
+  private playNext() {
+    if (this.position >= this.order.length) {
+      this.order = this.nextRound();
+      this.position = 0;
+    }
+    const entry = this.order[this.position++];
+
+    // keep the timer set while applying so that `running` is true and stop() can cancel the next entry
+    this.timer = setTimeout(() => this.playNext(), Math.min(entry.duration * 1000, MAX_TIMER_MS));
+    this.apply(entry).catch(this.onError);
+  }
+
+  private nextRound(): PlaylistEntry[] {
+    if (!this.options.shuffle) {
+      return [...this.options.entries];
+    }
+
+    // Fisher-Yates, avoiding to repeat the last entry of the previous round
+    const last = this.order[this.order.length - 1];
+    const round = [...this.options.entries];
+    for (let i = round.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [round[i], round[j]] = [round[j], round[i]];
+    }
+    if (round.length > 1 && round[0] === last) {
+      [round[0], round[round.length - 1]] = [round[round.length - 1], round[0]];
+    }
+    return round;
+  }
+}
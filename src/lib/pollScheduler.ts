@@ -0,0 +1,159 @@
+/**
+ * Poll scheduling
+ * Polls many controllers at their own intervals. A controller that doesn't change is polled less often,
+ * one that fails backs off further, and every write is confirmed by a poll shortly after it completed.
+ * Delays carry some jitter so controllers configured alike don't poll in lockstep.
+ */
+
+export type PollOutcome = 'changed' | 'unchanged' | 'failed';
+
+export interface PollTarget {
+  // interval while the state changes, in ms
+  interval: number;
+  poll: () => Promise<PollOutcome>;
+  // polls are skipped while this returns true, e.g. while user writes wait in the send queue
+  busy?: () => boolean;
+}
+
+export interface PollSchedulerOptions {
+  // unchanged polls before the interval starts to grow
+  idlePolls?: number;
+  // the interval of an unchanged controller grows up to interval x maxIdleFactor
+  maxIdleFactor?: number;
+  // the interval of a failing controller doubles up to this
+  maxFailureIntervalMs?: number;
+  // delays vary randomly by +/- this fraction
+  jitter?: number;
+  // quiet time after a write before the confirming poll
+  confirmDelayMs?: number;
+}
+
+interface PollEntry {
+  key: string;
+  target: PollTarget;
+  interval: number;
+  unchangedPolls: number;
+  lastOutcome?: PollOutcome;
+  timer?: NodeJS.Timeout;
+  running: boolean;
+}
+
+const DEFAULT_IDLE_POLLS = 10;
+const DEFAULT_MAX_IDLE_FACTOR = 4;
+const DEFAULT_MAX_FAILURE_INTERVAL_MS = 30000;
+const DEFAULT_JITTER = 0.1;
+const DEFAULT_CONFIRM_DELAY_MS = 500;
+const IDLE_GROWTH = 1.5;
+
+export class PollScheduler {
+  private readonly entries = new Map<string, PollEntry>();
+  private readonly idlePolls: number;
+  private readonly maxIdleFactor: number;
+  private readonly maxFailureIntervalMs: number;
+  private readonly jitter: number;
+  private readonly confirmDelayMs: number;
+  private stopped = false;
+
+  constructor(options: PollSchedulerOptions = {}) {
+    this.idlePolls = options.idlePolls ?? DEFAULT_IDLE_POLLS;
+    this.maxIdleFactor = options.maxIdleFactor ?? DEFAULT_MAX_IDLE_FACTOR;
+    this.maxFailureIntervalMs = options.maxFailureIntervalMs ?? DEFAULT_MAX_FAILURE_INTERVAL_MS;
+    this.jitter = options.jitter ?? DEFAULT_JITTER;
+    this.confirmDelayMs = options.confirmDelayMs ?? DEFAULT_CONFIRM_DELAY_MS;
+  }
+
+  /**
+   * Starts polling a target, the first poll comes at a random point of its first interval
+   */
+  add = (key: string, target: PollTarget) => {
+    this.remove(key);
+    const entry: PollEntry = { key, target, interval: target.interval, unchangedPolls: 0, running: false };
+    this.entries.set(key, entry);
+    this.schedule(entry, Math.random() * target.interval);
+  };
+
+  remove = (key: string) => {
+    const entry = this.entries.get(key);
+    if (entry?.timer) {
+      clearTimeout(entry.timer);
+    }
+    this.entries.delete(key);
+  };
+
+  /**
+   * Polls the target soon (after confirmDelayMs without further calls) and returns to its configured interval,
+   * used to confirm the state after a write
+   */
+  pollSoon = (key: string, delayMs = this.confirmDelayMs) => {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return;
+    }
+    entry.interval = entry.target.interval;
+    entry.unchangedPolls = 0;
+    this.schedule(entry, delayMs, false);
+  };
+
+  /**
+   * The current interval of the target, grown while it doesn't change or fails
+   */
+  currentInterval = (key: string): number | undefined => {
+    return this.entries.get(key)?.interval;
+  };
+
+  stop = () => {
+    this.stopped = true;
+    for (const key of [...this.entries.keys()]) {
+      this.remove(key);
+    }
+  };
+
+  private schedule(entry: PollEntry, delayMs: number, jitter = true) {
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+    }
+    const delay = jitter ? delayMs * (1 + (Math.random() * 2 - 1) * this.jitter) : delayMs;
+    entry.timer = setTimeout(() => this.run(entry), Math.max(0, delay));
+  }
+
+  private async run(entry: PollEntry) {
+    entry.timer = undefined;
+    if (this.stopped || this.entries.get(entry.key) !== entry) {
+      return;
+    }
+    // pending writes are confirmed by the poll after them, polling now would only delay them
+    if (entry.running || entry.target.busy?.()) {
+      this.schedule(entry, this.confirmDelayMs, false);
+      return;
+    }
+
+    entry.running = true;
+    let outcome: PollOutcome;
+    try {
+      outcome = await entry.target.poll();
+    } catch (_) {
+      outcome = 'failed';
+    } finally {
+      entry.running = false;
+    }
+    this.adapt(entry, outcome);
+
+    // pollSoon() may have scheduled the next poll already
+    if (!entry.timer) {
+      this.schedule(entry, entry.interval);
+    }
+  }
+
+  private adapt(entry: PollEntry, outcome: PollOutcome) {
+    const base = entry.target.interval;
+    if (outcome === 'failed') {
+      entry.interval = Math.min(Math.max(entry.interval, base) * 2, Math.max(this.maxFailureIntervalMs, base));
+    } else if (outcome === 'changed' || entry.lastOutcome === 'failed') {
+      entry.interval = base;
+      entry.unchangedPolls = 0;
+    } else if (++entry.unchangedPolls >= this.idlePolls) {
+      entry.interval = Math.min(entry.interval * IDLE_GROWTH, base * this.maxIdleFactor);
+    }
+    entry.lastOutcome = outcome;
+  }
+}
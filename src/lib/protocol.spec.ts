@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { ProtocolError, decodeName, decodeStatus, encodeFrame, validateResponse, STATUS_RESPONSE_LENGTH } from './protocol';
+import { Sp108eSimulator, Sp108eSimulatorState } from './sp108eSimulator';
+import { ANIMATION_MODE_WAVE, PRESET_EFFECT_RAINBOW, UNKNOWN_MODE } from './animationModes';
+
+// the simulator builds its replies independently of the decoder
+const statusFrame = (state: Partial<Sp108eSimulatorState>) => new Sp108eSimulator({ state }).statusFrame();
+
+describe('protocol codec', () => {
+  it('encodes request frames with byte, uint16 and color parameters', () => {
+    assert.strictEqual(encodeFrame('GET_STATUS').toString('hex'), '380000001083');
+    assert.strictEqual(encodeFrame('SET_BRIGHTNESS', 255).toString('hex'), '38ff00002a83');
+    assert.strictEqual(encodeFrame('SET_LEDS_PER_SEGMENT', 300).toString('hex'), '38012c002d83');
+    assert.strictEqual(encodeFrame('SET_COLOR', 'FF8800').toString('hex'), '38ff88002283');
+    assert.strictEqual(encodeFrame('SET_COLOR', 0x0000ff).toString('hex'), '380000ff2283');
+  });
+
+  it('rejects parameters out of range', () => {
+    assert.throws(() => encodeFrame('SET_BRIGHTNESS', 256), ProtocolError);
+    assert.throws(() => encodeFrame('SET_SPEED', 1.5), ProtocolError);
+    assert.throws(() => encodeFrame('SET_SEGMENTS', 65536), ProtocolError);
+    assert.throws(() => encodeFrame('SET_COLOR', '#ff8800'), ProtocolError);
+    assert.throws(() => encodeFrame('SET_COLOR', 0x1000000), ProtocolError);
+  });
+
+  it('decodes the status with the kind of the mode', () => {
+    const status = decodeStatus(statusFrame({ on: false, mode: ANIMATION_MODE_WAVE, brightness: 51, color: '00ff00', segments: 2 }));
+    assert.strictEqual(status.on, false);
+    assert.strictEqual(status.animationMode, ANIMATION_MODE_WAVE);
+    assert.strictEqual(status.presetEffectMode, UNKNOWN_MODE);
+    assert.strictEqual(status.brightnessPercentage, 20);
+    assert.strictEqual(status.color, '00ff00');
+    assert.strictEqual(status.hsv.hue, 120);
+    assert.strictEqual(status.numberOfSegments, 2);
+
+    assert.strictEqual(decodeStatus(statusFrame({ mode: PRESET_EFFECT_RAINBOW })).presetEffectMode, PRESET_EFFECT_RAINBOW);
+    const custom = decodeStatus(statusFrame({ mode: 220 }));
+    assert.deepStrictEqual([custom.customEffectMode, custom.animationMode], [2, UNKNOWN_MODE]);
+  });
+
+  it('rejects replies with the wrong length, header or trailer', () => {
+    const frame = statusFrame({});
+    assert.throws(() => validateResponse(undefined, STATUS_RESPONSE_LENGTH), /Empty response/);
+    assert.throws(() => decodeStatus(frame.slice(0, 16)), /Invalid response length/);
+    const corrupted = Buffer.from(frame);
+    corrupted[16] = 0x00;
+    assert.throws(() => decodeStatus(corrupted), (err: ProtocolError) => err instanceof ProtocolError && err.response === corrupted);
+  });
+
+  it('decodes the name without its padding', () => {
+    assert.strictEqual(decodeName(new Sp108eSimulator({ state: { name: 'Desk' } }).nameFrame()), 'Desk');
+    assert.throws(() => decodeName(new Sp108eSimulator({ state: { name: '' } }).nameFrame()), /Empty device name/);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * SP108E wire protocol
+ * Typed command definitions, request frame encoding and response decoding.
+ *
+ * Requests are 6 byte frames: 0x38 <p1> <p2> <p3> <cmd> 0x83
+ * Status replies are 17 byte frames: 0x38 <on> <mode> <speed> <brightness> <colorOrder> <ledsPerSegment:2>
+ *   <segments:2> <r> <g> <b> <icType> <recordedPatterns> <whiteBrightness> 0x83
+ * Custom effects 1-12 are selected with SET_CUSTOM and reported as mode 219-230.
+ * Name replies are 17 byte frames: 0x38 <ASCII name, NUL padded:15> 0x83
+ */
+import colorConvert from 'color-convert';
+import { UNKNOWN_MODE, CUSTOM_EFFECT_1, CUSTOM_EFFECT_12 } from './animationModes';
+
+export const FRAME_HEADER = 0x38;
+export const FRAME_TRAILER = 0x83;
+export const REQUEST_LENGTH = 6;
+export const STATUS_RESPONSE_LENGTH = 17;
+export const NAME_RESPONSE_LENGTH = 17;
+
+// mode byte values above this one are animation modes, below are preset effects
+const PRESET_EFFECT_MODE_LIMIT = 180;
+// custom effect 1-12 is reported as mode byte 219-230
+export const CUSTOM_EFFECT_MODE_OFFSET = 218;
+
+/**
+ * none   - no parameter, sent as 000000
+ * byte   - 0-255 in p1
+ * uint16 - 0-65535, big endian in p1 p2
+ * color  - 24 bit RGB in p1 p2 p3
+ */
+export type ParameterType = 'none' | 'byte' | 'uint16' | 'color';
+
+export interface CommandDefinition {
+  code: number;
+  parameter: ParameterType;
+  responseLength: number;
+}
+
+export const COMMANDS = {
+  GET_STATUS: { code: 0x10, parameter: 'none', responseLength: STATUS_RESPONSE_LENGTH },
+  GET_NAME: { code: 0x77, parameter: 'none', responseLength: NAME_RESPONSE_LENGTH },
+  TOGGLE: { code: 0xaa, parameter: 'none', responseLength: STATUS_RESPONSE_LENGTH },
+  SET_CHIP_TYPE: { code: 0x1c, parameter: 'byte', responseLength: 0 },
+  SET_COLOR_ORDER: { code: 0x3c, parameter: 'byte', responseLength: 0 },
+  SET_SEGMENTS: { code: 0x2e, parameter: 'uint16', responseLength: 0 },
+  SET_LEDS_PER_SEGMENT: { code: 0x2d, parameter: 'uint16', responseLength: 0 },
+  SET_ANIMATION_MODE: { code: 0x2c, parameter: 'byte', responseLength: 0 },
+  SET_DREAM_MODE: { code: 0x2c, parameter: 'byte', responseLength: 0 },
+  SET_DREAM_MODE_AUTO: { code: 0x06, parameter: 'none', responseLength: 0 },
+  SET_CUSTOM: { code: 0x02, parameter: 'byte', responseLength: 0 },
+  SET_BRIGHTNESS: { code: 0x2a, parameter: 'byte', responseLength: 0 },
+  SET_WHITE_BRIGHTNESS: { code: 0x08, parameter: 'byte', responseLength: 0 },
+  SET_SPEED: { code: 0x03, parameter: 'byte', responseLength: 0 },
+  SET_COLOR: { code: 0x22, parameter: 'color', responseLength: 0 },
+};
+
+export type CommandName = keyof typeof COMMANDS;
+
+export interface hsv {
+  hue: number;
+  saturation: number;
+  value: number;
+}
+
+export interface sp108eStatus {
+  rawResponse: string;
+  on: boolean;
+  animationMode: number;
+  presetEffectMode: number;
+  customEffectMode: number;
+  animationSpeed: number;
+  animationSpeedPercentage: number;
+  brightness: number;
+  brightnessPercentage: number;
+  colorOrder: number;
+  ledsPerSegment: number;
+  numberOfSegments: number;
+  color: string;
+  hsv: hsv;
+  icType: number;
+  recordedPatterns: number;
+  whiteBrightness: number;
+  whiteBrightnessPercentage: number;
+}
+
+/**
+ * Raised for parameters out of range and for replies that don't match the expected frame
+ */
+export class ProtocolError extends Error {
+  constructor(message: string, public readonly response?: Buffer) {
+    super(message);
+    this.name = 'ProtocolError';
+    Object.setPrototypeOf(this, ProtocolError.prototype);
+  }
+}
+
+const checkRange = (command: CommandName, value: number, max: number) => {
+  if (!Number.isInteger(value) || value < 0 || value > max) {
+    throw new ProtocolError(`Invalid parameter for ${command}: ${value} (expected an integer 0-${max})`);
+  }
+};
+
+/**
+ * Encodes the 3 parameter bytes of a command
+ * @param {number|string} value integer for byte/uint16 parameters, integer or hex string without hash for colors
+ */
+export const encodeParameter = (command: CommandName, value?: number | string): Buffer => {
+  const parameter = Buffer.alloc(3);
+  const type = COMMANDS[command].parameter as ParameterType;
+
+  switch (type) {
+    case 'none':
+      break;
+    case 'byte':
+      checkRange(command, Number(value), 0xff);
+      parameter[0] = Number(value);
+      break;
+    case 'uint16':
+      checkRange(command, Number(value), 0xffff);
+      parameter.writeUInt16BE(Number(value), 0);
+      break;
+    case 'color': {
+      const color = typeof value === 'string' && /^[0-9a-f]{6}$/i.test(value) ? parseInt(value, 16) : value;
+      if (typeof color !== 'number') {
+        throw new ProtocolError(`Invalid parameter for ${command}: ${value} (expected a 6 digit hex color)`);
+      }
+      checkRange(command, color, 0xffffff);
+      parameter.writeUIntBE(color, 0, 3);
+      break;
+    }
+  }
+
+  return parameter;
+};
+
+/**
+ * Builds the 6 byte request frame of a command
+ */
+export const encodeFrame = (command: CommandName, value?: number | string): Buffer => {
+  const frame = Buffer.alloc(REQUEST_LENGTH);
+  frame[0] = FRAME_HEADER;
+  encodeParameter(command, value).copy(frame, 1);
+  frame[4] = COMMANDS[command].code;
+  frame[5] = FRAME_TRAILER;
+  return frame;
+};
+
+/**
+ * Checks length, header and trailer of a reply
+ */
+export const validateResponse = (response: Buffer | undefined, expectedLength: number): Buffer => {
+  if (!response || response.length === 0) {
+    throw new ProtocolError('Empty response');
+  }
+  if (response.length !== expectedLength) {
+    throw new ProtocolError(`Invalid response length ${response.length} (expected ${expectedLength})`, response);
+  }
+  if (response[0] !== FRAME_HEADER || response[response.length - 1] !== FRAME_TRAILER) {
+    throw new ProtocolError(`Invalid response frame ${response.toString('hex')}`, response);
+  }
+  return response;
+};
+
+export const calculateHsv = (hexColor: string): hsv => {
+  const hsv = colorConvert.hex.hsv(hexColor);
+  return { hue: hsv[0], saturation: hsv[1], value: hsv[2] };
+};
+
+/**
+ * Decodes a status reply (GET_STATUS and TOGGLE)
+ */
+export const decodeStatus = (response: Buffer): sp108eStatus => {
+  validateResponse(response, STATUS_RESPONSE_LENGTH);
+
+  const anyMode = response[2];
+  const customEffect = anyMode - CUSTOM_EFFECT_MODE_OFFSET;
+  const isCustomEffect = customEffect >= CUSTOM_EFFECT_1 && customEffect <= CUSTOM_EFFECT_12;
+  const color = response.slice(10, 13).toString('hex');
+  return {
+    rawResponse: response.toString('hex'),
+    on: response[1] === 0x01,
+    animationMode: anyMode > PRESET_EFFECT_MODE_LIMIT && !isCustomEffect ? anyMode : UNKNOWN_MODE,
+    presetEffectMode: anyMode < PRESET_EFFECT_MODE_LIMIT ? anyMode : UNKNOWN_MODE,
+    customEffectMode: isCustomEffect ? customEffect : UNKNOWN_MODE,
+    animationSpeed: response[3],
+    animationSpeedPercentage: response[3] / 255 * 100,
+    brightness: response[4],
+    brightnessPercentage: response[4] / 255 * 100,
+    colorOrder: response[5],
+    ledsPerSegment: response.readUInt16BE(6),
+    numberOfSegments: response.readUInt16BE(8),
+    color,
+    hsv: calculateHsv(color),
+    icType: response[13],
+    recordedPatterns: response[14],
+    whiteBrightness: response[15],
+    whiteBrightnessPercentage: response[15] / 255 * 100,
+  };
+};
+
+/**
+ * Decodes a name reply (GET_NAME)
+ */
+export const decodeName = (response: Buffer): string => {
+  validateResponse(response, NAME_RESPONSE_LENGTH);
+
+  const name = response.slice(1, response.length - 1).toString('ascii').replace(/\0+$/, '').trim();
+  if (name.length === 0) {
+    throw new ProtocolError('Empty device name', response);
+  }
+  return name;
+};
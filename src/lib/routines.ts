@@ -0,0 +1,107 @@
+/**
+ * Routines
+ * Sunrise wake-up and wind-down, run by the accessory on top of the transition engine.
+ */
+import { interpolate, interpolateColor } from './transitions';
+
+export type RoutineName = 'sunrise' | 'windDown';
+
+export interface DailySchedule {
+  hour: number;
+  minute: number;
+  // weekdays as in Date.getDay() (0 = Sunday), empty = every day
+  days: number[];
+}
+
+export interface RoutineConfig {
+  durationMs: number;
+  // start time of the routine
+  schedule?: DailySchedule;
+}
+
+const DEFAULT_DURATION_MINUTES = 30;
+const MAX_DURATION_MINUTES = 180;
+export const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// dim deep red through orange to bright warm white
+const SUNRISE_KEYFRAMES = [
+  { t: 0, color: '400000', brightness: 1 },
+  { t: 0.25, color: 'ff1a00', brightness: 10 },
+  { t: 0.5, color: 'ff6a00', brightness: 35 },
+  { t: 0.75, color: 'ffa040', brightness: 70 },
+  { t: 1, color: 'ffd6aa', brightness: 100 },
+];
+
+/**
+ * Color and brightness (percentage) of the sunrise at progress t (0-1)
+ */
+export const sunriseFrame = (t: number): { color: string; brightness: number } => {
+  const next = SUNRISE_KEYFRAMES.findIndex(keyframe => keyframe.t >= t);
+  if (next === -1 || SUNRISE_KEYFRAMES[next].t === t) {
+    const { color, brightness } = SUNRISE_KEYFRAMES[next === -1 ? SUNRISE_KEYFRAMES.length - 1 : next];
+    return { color, brightness };
+  }
+  const from = SUNRISE_KEYFRAMES[next - 1];
+  const to = SUNRISE_KEYFRAMES[next];
+  const progress = (t - from.t) / (to.t - from.t);
+  return {
+    color: interpolateColor(from.color, to.color, progress),
+    brightness: interpolate(from.brightness, to.brightness, progress),
+  };
+};
+
+/**
+ * Parses "HH:MM" and optional weekday names ("mon", "tue", ...)
+ */
+export const parseDailySchedule = (time: unknown, days: unknown): DailySchedule | undefined => {
+  const match = typeof time === 'string' ? /^(\d{1,2}):(\d{2})$/.exec(time.trim()) : null;
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    return undefined;
+  }
+  const weekdays = (Array.isArray(days) ? days : [])
+    .map(day => WEEKDAYS.indexOf(String(day).trim().toLowerCase().slice(0, 3)))
+    .filter(day => day !== -1);
+  return { hour: Number(match[1]), minute: Number(match[2]), days: weekdays };
+};
+
+/**
+ * Parses the `sunrise` / `windDown` block of the device config, undefined when the routine is not configured
+ */
+export const parseRoutine = (config, onInvalid: (message: string) => void = () => undefined): RoutineConfig | undefined => {
+  if (typeof config !== 'object' || config === null) {
+    return undefined;
+  }
+
+  let minutes = DEFAULT_DURATION_MINUTES;
+  if (config.duration !== undefined) {
+    if (typeof config.duration === 'number' && config.duration > 0 && config.duration <= MAX_DURATION_MINUTES) {
+      minutes = config.duration;
+    } else {
+      onInvalid(`Invalid duration ${config.duration}, using ${DEFAULT_DURATION_MINUTES} minutes`);
+    }
+  }
+
+  let schedule: DailySchedule | undefined;
+  if (config.time !== undefined && config.time !== '') {
+    schedule = parseDailySchedule(config.time, config.days);
+    if (!schedule) {
+      onInvalid(`Invalid time ${config.time}, expected HH:MM`);
+    }
+  }
+
+  return { durationMs: minutes * 60 * 1000, schedule };
+};
+
+/**
+ * Milliseconds until the next start of a daily schedule, always in the future
+ */
+export const msUntilNext = (schedule: DailySchedule, now = new Date()): number => {
+  for (let day = 0; day <= 7; day++) {
+    const next = new Date(now.getFullYear(), now.getMonth(), now.getDate() + day, schedule.hour, schedule.minute);
+    if (next > now && (schedule.days.length === 0 || schedule.days.includes(next.getDay()))) {
+      return next.getTime() - now.getTime();
+    }
+  }
+  // unreachable, every weekday comes up within a week
+  return 24 * 60 * 60 * 1000;
+};
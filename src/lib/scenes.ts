@@ -0,0 +1,111 @@
+/**
+ * Scenes
+ * Named snapshots of the full strip state, defined in the config or captured from the current status.
+ */
+import { CUSTOM_EFFECT_1, CUSTOM_EFFECT_12, UNKNOWN_MODE } from './animationModes';
+import { resolveEffect } from './playlist';
+import { sp108eStatus } from './protocol';
+
+export type SceneModeType = 'animation' | 'preset' | 'custom';
+
+export interface Scene {
+  name: string;
+  on: boolean;
+  // hex color without hash, shown with the static animation mode
+  color?: string;
+  // percentages
+  brightness?: number;
+  white?: number;
+  speed?: number;
+  mode?: { type: SceneModeType; effect: number };
+}
+
+export interface SceneConfig {
+  name: string;
+  scene?: Scene;
+  // scenes without settings are captured from the current state with their save switch
+  capture: boolean;
+}
+
+const percentage = (value): number | undefined => {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(value, 0), 100) : undefined;
+};
+
+/**
+ * Parses a scene of the device config. `effect` is a name or id of PRESET_EFFECTS / ANIMATION_MODES,
+ * `customEffect` a custom effect 1-12. Invalid values are reported through `onInvalid` and left out.
+ */
+export const parseScene = (config, onInvalid: (message: string) => void = () => undefined): SceneConfig | undefined => {
+  const name = typeof config?.name === 'string' ? config.name.trim() : '';
+  if (name === '') {
+    onInvalid('Scene without name');
+    return undefined;
+  }
+
+  const scene: Scene = {
+    name,
+    on: config.on !== false,
+    brightness: percentage(config.brightness),
+    white: percentage(config.white),
+    speed: percentage(config.speed),
+  };
+
+  if (config.color !== undefined) {
+    if (typeof config.color === 'string' && /^#?[0-9a-f]{6}$/i.test(config.color)) {
+      scene.color = config.color.replace('#', '').toLowerCase();
+    } else {
+      onInvalid(`Invalid color of scene ${name}: ${config.color}`);
+    }
+  }
+
+  if (config.customEffect !== undefined) {
+    const customEffect = Number(config.customEffect);
+    if (Number.isInteger(customEffect) && customEffect >= CUSTOM_EFFECT_1 && customEffect <= CUSTOM_EFFECT_12) {
+      scene.mode = { type: 'custom', effect: customEffect };
+    } else {
+      onInvalid(`Invalid custom effect of scene ${name}: ${config.customEffect}`);
+    }
+  } else if (config.effect !== undefined) {
+    const resolved = resolveEffect(config.effect);
+    if (resolved) {
+      scene.mode = resolved;
+    } else {
+      onInvalid(`Effect of scene ${name} not found in PRESET_EFFECTS / ANIMATION_MODES: ${config.effect}`);
+    }
+  }
+
+  const hasSettings = config.on !== undefined || scene.color !== undefined || scene.mode !== undefined ||
+    scene.brightness !== undefined || scene.white !== undefined || scene.speed !== undefined;
+  return { name, scene: hasSettings ? scene : undefined, capture: Boolean(config.capture) || !hasSettings };
+};
+
+/**
+ * Takes a snapshot of a polled status
+ */
+export const captureScene = (name: string, status: sp108eStatus, withWhite: boolean): Scene => {
+  let mode: Scene['mode'];
+  if (status.customEffectMode !== UNKNOWN_MODE) {
+    mode = { type: 'custom', effect: status.customEffectMode };
+  } else if (status.presetEffectMode !== UNKNOWN_MODE) {
+    mode = { type: 'preset', effect: status.presetEffectMode };
+  } else if (status.animationMode !== UNKNOWN_MODE) {
+    mode = { type: 'animation', effect: status.animationMode };
+  }
+
+  return {
+    name,
+    on: status.on,
+    color: status.color,
+    brightness: Math.round(status.brightnessPercentage),
+    white: withWhite ? Math.round(status.whiteBrightnessPercentage) : undefined,
+    speed: Math.round(status.animationSpeedPercentage),
+    mode,
+  };
+};
+
+/**
+ * Whether the color of a scene is visible, preset and custom effects bring their own colors
+ */
+export const showsColor = (scene: Scene): boolean => {
+  return scene.mode === undefined || scene.mode.type === 'animation';
+};
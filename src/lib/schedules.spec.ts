@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { parseScheduleEntry, triggerMatches } from './schedules';
+
+describe('schedule triggers', () => {
+  it('fires a cron trigger in its minute', () => {
+    const entry = parseScheduleEntry({ cron: '0 22 * * *', power: false }, assert.fail);
+    assert.ok(entry);
+    assert.ok(triggerMatches(entry.trigger, new Date(2024, 5, 17, 22, 0, 30)));
+    assert.ok(!triggerMatches(entry.trigger, new Date(2024, 5, 17, 22, 1)));
+  });
+
+  it('fires a sun trigger at the event plus its offset on the configured weekdays', () => {
+    const entry = parseScheduleEntry({ sun: 'sunset', offset: -30, days: ['mon'], power: true }, assert.fail);
+    assert.ok(entry);
+    // Monday 2024-06-17
+    const sunset = new Date(2024, 5, 17, 21, 15, 40);
+    const sun = { sunrise: new Date(2024, 5, 17, 4, 40), sunset };
+    assert.ok(triggerMatches(entry.trigger, new Date(2024, 5, 17, 20, 45, 10), sun));
+    assert.ok(!triggerMatches(entry.trigger, new Date(2024, 5, 17, 21, 15), sun));
+    // the same time on Tuesday
+    const tuesday = { sunset: new Date(2024, 5, 18, 21, 15, 40) };
+    assert.ok(!triggerMatches(entry.trigger, new Date(2024, 5, 18, 20, 45, 10), tuesday));
+  });
+
+  it('never fires a sun trigger without the sun event', () => {
+    const entry = parseScheduleEntry({ sun: 'sunrise', power: true }, assert.fail);
+    assert.ok(entry);
+    assert.ok(!triggerMatches(entry.trigger, new Date(2024, 5, 21, 12, 0), {}));
+  });
+
+  it('reports entries that can not run', () => {
+    const invalid: string[] = [];
+    assert.strictEqual(parseScheduleEntry({ name: 'Broken', cron: '* * *', power: true }, (message) => invalid.push(message)), undefined);
+    assert.strictEqual(parseScheduleEntry({ name: 'Idle', sun: 'sunrise' }, (message) => invalid.push(message)), undefined);
+    assert.strictEqual(invalid.length, 2);
+    assert.match(invalid[1], /nothing to do/);
+  });
+});
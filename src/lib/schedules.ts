@@ -0,0 +1,158 @@
+/**
+ * Schedules
+ * Per-device schedule entries (cron or sunrise / sunset trigger plus an action) and the holiday calendar.
+ */
+import { CronExpression, parseCron, cronMatches } from './cron';
+import { SunTimes } from './solar';
+import { resolveEffect } from './playlist';
+import { WEEKDAYS } from './routines';
+
+export type ScheduleTrigger =
+  | { type: 'cron'; cron: CronExpression }
+  // minutes relative to the sun event, only on the given weekdays (empty = every day)
+  | { type: 'sun'; event: 'sunrise' | 'sunset'; offset: number; days: number[] };
+
+export interface ScheduleAction {
+  power?: boolean;
+  effect?: { type: 'animation' | 'preset'; effect: number };
+  color?: string;
+  brightness?: number;
+  scene?: string;
+  // the effect of the current holiday replaces `effect`
+  holidayEffect: boolean;
+}
+
+export interface ScheduleEntry {
+  name: string;
+  trigger: ScheduleTrigger;
+  action: ScheduleAction;
+}
+
+export interface Holiday {
+  name: string;
+  // month and day, inclusive, a range may wrap around the new year
+  start: { month: number; day: number };
+  end: { month: number; day: number };
+  effect: { type: 'animation' | 'preset'; effect: number };
+}
+
+const parseMonthDay = (value: unknown): { month: number; day: number } | undefined => {
+  const match = typeof value === 'string' ? /^(\d{1,2})-(\d{1,2})$/.exec(value.trim()) : null;
+  if (!match) {
+    return undefined;
+  }
+  const month = Number(match[1]);
+  const day = Number(match[2]);
+  return month >= 1 && month <= 12 && day >= 1 && day <= 31 ? { month, day } : undefined;
+};
+
+/**
+ * Parses a schedule entry of the device config, undefined (reported through onInvalid) when it can't run
+ */
+export const parseScheduleEntry = (config, onInvalid: (message: string) => void = () => undefined): ScheduleEntry | undefined => {
+  const name = typeof config?.name === 'string' && config.name.trim() !== '' ? config.name.trim() : undefined;
+  const label = name ?? config?.cron ?? config?.sun ?? 'schedule';
+
+  let trigger: ScheduleTrigger;
+  if (typeof config?.cron === 'string' && config.cron.trim() !== '') {
+    try {
+      trigger = { type: 'cron', cron: parseCron(config.cron) };
+    } catch (e) {
+      onInvalid(`Invalid cron expression of ${label}: ${(e as Error).message}`);
+      return undefined;
+    }
+  } else if (config?.sun === 'sunrise' || config?.sun === 'sunset') {
+    const offset = Number(config.offset ?? 0);
+    if (!Number.isFinite(offset)) {
+      onInvalid(`Invalid offset of ${label}: ${config.offset}`);
+      return undefined;
+    }
+    const days = (Array.isArray(config.days) ? config.days : [])
+      .map(day => WEEKDAYS.indexOf(String(day).trim().toLowerCase().slice(0, 3)))
+      .filter(day => day !== -1);
+    trigger = { type: 'sun', event: config.sun, offset: Math.round(offset), days };
+  } else {
+    onInvalid(`Schedule ${label} needs a cron expression or a sun event (sunrise / sunset)`);
+    return undefined;
+  }
+
+  const action: ScheduleAction = { holidayEffect: Boolean(config.holidayEffect) };
+  if (typeof config.power === 'boolean') {
+    action.power = config.power;
+  }
+  if (config.effect !== undefined && config.effect !== '') {
+    const effect = resolveEffect(config.effect);
+    if (effect) {
+      action.effect = effect;
+    } else {
+      onInvalid(`Effect of ${label} not found in PRESET_EFFECTS / ANIMATION_MODES: ${config.effect}`);
+    }
+  }
+  if (config.color !== undefined && config.color !== '') {
+    if (typeof config.color === 'string' && /^#?[0-9a-f]{6}$/i.test(config.color)) {
+      action.color = config.color.replace('#', '').toLowerCase();
+    } else {
+      onInvalid(`Invalid color of ${label}: ${config.color}`);
+    }
+  }
+  if (typeof config.brightness === 'number' && config.brightness >= 0 && config.brightness <= 100) {
+    action.brightness = config.brightness;
+  }
+  if (typeof config.scene === 'string' && config.scene.trim() !== '') {
+    action.scene = config.scene.trim();
+  }
+
+  if (action.power === undefined && !action.effect && !action.color && action.brightness === undefined &&
+    !action.scene && !action.holidayEffect) {
+    onInvalid(`Schedule ${label} has nothing to do`);
+    return undefined;
+  }
+  return { name: name ?? label, trigger, action };
+};
+
+/**
+ * Parses the holiday calendar of the platform config, e.g. { name: 'Christmas', start: '12-01', end: '12-26', effect: 'Christmas' }
+ */
+export const parseHoliday = (config, onInvalid: (message: string) => void = () => undefined): Holiday | undefined => {
+  const name = typeof config?.name === 'string' ? config.name.trim() : 'holiday';
+  const start = parseMonthDay(config?.start);
+  const end = parseMonthDay(config?.end ?? config?.start);
+  if (!start || !end) {
+    onInvalid(`Invalid dates of ${name}, expected MM-DD: ${config?.start} - ${config?.end}`);
+    return undefined;
+  }
+  const effect = config.effect === undefined ? undefined : resolveEffect(config.effect);
+  if (!effect) {
+    onInvalid(`Effect of ${name} not found in PRESET_EFFECTS / ANIMATION_MODES: ${config.effect}`);
+    return undefined;
+  }
+  return { name, start, end, effect };
+};
+
+/**
+ * The first holiday whose date range contains the local date
+ */
+export const currentHoliday = (holidays: Holiday[], date: Date): Holiday | undefined => {
+  const key = (monthDay: { month: number; day: number }) => monthDay.month * 100 + monthDay.day;
+  const today = key({ month: date.getMonth() + 1, day: date.getDate() });
+  return holidays.find(holiday => {
+    const start = key(holiday.start);
+    const end = key(holiday.end);
+    return start <= end ? today >= start && today <= end : today >= start || today <= end;
+  });
+};
+
+/**
+ * Whether the trigger fires in the local minute of `date`, `sun` holds the sun times of that day
+ */
+export const triggerMatches = (trigger: ScheduleTrigger, date: Date, sun?: SunTimes): boolean => {
+  if (trigger.type === 'cron') {
+    return cronMatches(trigger.cron, date);
+  }
+  const event = sun?.[trigger.event];
+  if (!event || (trigger.days.length > 0 && !trigger.days.includes(date.getDay()))) {
+    return false;
+  }
+  const fireAt = new Date(event.getTime() + trigger.offset * 60 * 1000);
+  return Math.floor(fireAt.getTime() / 60000) === Math.floor(date.getTime() / 60000);
+};
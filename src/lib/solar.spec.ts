@@ -0,0 +1,27 @@
+import * as assert from 'assert';
+import { sunTimes } from './solar';
+
+const LONDON = { latitude: 51.5074, longitude: -0.1278 };
+const TOLERANCE_MS = 3 * 60 * 1000;
+
+const assertNear = (actual: Date | undefined, expected: string) => {
+  assert.ok(actual, `expected ${expected}`);
+  const difference = Math.abs(actual.getTime() - new Date(expected).getTime());
+  assert.ok(difference < TOLERANCE_MS, `${actual.toISOString()} is not near ${expected}`);
+};
+
+describe('solar time', () => {
+  it('computes sunrise and sunset at the solstices', () => {
+    const summer = sunTimes(new Date(2024, 5, 21), LONDON.latitude, LONDON.longitude);
+    assertNear(summer.sunrise, '2024-06-21T03:43:00Z');
+    assertNear(summer.sunset, '2024-06-21T20:21:00Z');
+
+    const winter = sunTimes(new Date(2024, 11, 21), LONDON.latitude, LONDON.longitude);
+    assertNear(winter.sunrise, '2024-12-21T08:04:00Z');
+    assertNear(winter.sunset, '2024-12-21T15:53:00Z');
+  });
+
+  it('has no sunrise or sunset during the midnight sun', () => {
+    assert.deepStrictEqual(sunTimes(new Date(2024, 5, 21), 69.65, 18.96), {});
+  });
+});
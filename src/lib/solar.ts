@@ -0,0 +1,49 @@
+/**
+ * Solar time
+ * Sunrise and sunset computed locally from latitude and longitude (NOAA sunrise equation, accurate to about a minute).
+ */
+const RAD = Math.PI / 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const J0 = 0.0009;
+// sun center 0.833° below the horizon: refraction and the radius of the sun
+const SUNRISE_ALTITUDE = -0.833 * RAD;
+// axial tilt of the earth
+const OBLIQUITY = 23.4397 * RAD;
+
+export interface SunTimes {
+  // undefined during polar night / midnight sun
+  sunrise?: Date;
+  sunset?: Date;
+}
+
+const toJulian = (date: Date) => date.getTime() / DAY_MS - 0.5 + J1970;
+const fromJulian = (julian: number) => new Date((julian + 0.5 - J1970) * DAY_MS);
+
+/**
+ * Sunrise and sunset of the local calendar day of `date`
+ */
+export const sunTimes = (date: Date, latitude: number, longitude: number): SunTimes => {
+  const noon = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 12);
+  const lw = -longitude * RAD;
+  const phi = latitude * RAD;
+
+  const cycle = Math.round(toJulian(noon) - J2000 - J0 - lw / (2 * Math.PI));
+  const approxTransit = J0 + lw / (2 * Math.PI) + cycle;
+  const meanAnomaly = RAD * (357.5291 + 0.98560028 * approxTransit);
+  const center = RAD * (1.9148 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly) + 0.0003 * Math.sin(3 * meanAnomaly));
+  const eclipticLongitude = meanAnomaly + center + RAD * 102.9372 + Math.PI;
+  const declination = Math.asin(Math.sin(eclipticLongitude) * Math.sin(OBLIQUITY));
+  const transitCorrection = 0.0053 * Math.sin(meanAnomaly) - 0.0069 * Math.sin(2 * eclipticLongitude);
+  const solarNoon = J2000 + approxTransit + transitCorrection;
+
+  const cosHourAngle = (Math.sin(SUNRISE_ALTITUDE) - Math.sin(phi) * Math.sin(declination)) / (Math.cos(phi) * Math.cos(declination));
+  if (cosHourAngle < -1 || cosHourAngle > 1) {
+    return {};
+  }
+  const hourAngle = Math.acos(cosHourAngle);
+  const sunset = J2000 + J0 + (hourAngle + lw) / (2 * Math.PI) + cycle + transitCorrection;
+  const sunrise = solarNoon - (sunset - solarNoon);
+  return { sunrise: fromJulian(sunrise), sunset: fromJulian(sunset) };
+};
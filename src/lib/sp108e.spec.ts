@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import sp108e from './sp108e';
+import { Sp108eSimulator } from './sp108eSimulator';
+import { ANIMATION_MODE_STATIC, ANIMATION_MODE_WAVE } from './animationModes';
+
+describe('sp108e client against the simulator', () => {
+  let simulator: Sp108eSimulator;
+  let client: sp108e;
+
+  beforeEach(async () => {
+    simulator = new Sp108eSimulator({ port: 0 });
+    const port = await simulator.start();
+    client = new sp108e({ host: '127.0.0.1', port, timeout: 1000, retries: 1, retryDelay: 50 });
+  });
+
+  afterEach(async () => {
+    await simulator.stop();
+  });
+
+  it('reads the status and the name', async () => {
+    const status = await client.getStatus();
+    assert.strictEqual(status.on, simulator.state.on);
+    assert.strictEqual(await client.getName(), simulator.state.name);
+  });
+
+  it('switches the power and verifies it', async () => {
+    assert.strictEqual((await client.setPower(false)).on, false);
+    assert.strictEqual(simulator.state.on, false);
+    assert.strictEqual((await client.setPower(true)).on, true);
+    assert.strictEqual(simulator.state.on, true);
+  });
+
+  it('writes brightness, speed and color', async () => {
+    await client.setBrightnessPercentage(50);
+    await client.setAnimationSpeed(40);
+    await client.setColor('ff8800');
+    const status = await client.getStatus();
+    assert.strictEqual(status.brightness, 128);
+    assert.strictEqual(status.animationSpeed, 40);
+    assert.strictEqual(status.color, 'ff8800');
+  });
+
+  it('switches to static when a color is set while an animation runs', async () => {
+    await client.setAnimationMode(ANIMATION_MODE_WAVE);
+    await client.setColor('00ff00');
+    const status = await client.getStatus();
+    assert.strictEqual(status.animationMode, ANIMATION_MODE_STATIC);
+    assert.strictEqual(status.color, '00ff00');
+  });
+
+  it('keeps the last of superseded writes and runs writes before polls', async () => {
+    const order: string[] = [];
+    await Promise.all([
+      client.setBrightness(10).then(() => order.push('10')),
+      client.getStatus().then(() => order.push('poll')),
+      client.setBrightness(20).then(() => order.push('20')),
+      client.setBrightness(30).then(() => order.push('30')),
+    ]);
+    assert.strictEqual(order[order.length - 1], 'poll');
+    assert.strictEqual((await client.getStatus()).brightness, 30);
+    assert.strictEqual(client.queueStats.droppedWrites, 1);
+  });
+
+  it('recovers from malformed replies without shifting later replies', async () => {
+    simulator.faults = { malformedResponseRate: 1 };
+    await assert.rejects(client.getStatus());
+    simulator.faults = {};
+    await client.setAnimationMode(ANIMATION_MODE_WAVE);
+    assert.strictEqual((await client.getStatus()).animationMode, ANIMATION_MODE_WAVE);
+    assert.strictEqual(await client.getName(), simulator.state.name);
+  });
+});
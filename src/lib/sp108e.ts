@@ -3,84 +3,115 @@
  * Porting https://github.com/greenwombat/sp108e from JS to TS
  */
 import * as net from 'net';
-import colorConvert from 'color-convert';
+import { EventEmitter } from 'events';
 import { PromiseSocket } from 'promise-socket';
-import { ANIMATION_MODE_STATIC, UNKNOWN_MODE } from './animationModes';
+import { ANIMATION_MODE_STATIC, CUSTOM_EFFECT_1, CUSTOM_EFFECT_12 } from './animationModes';
 import { CHIP_TYPES } from './chipTypes';
 import { COLOR_ORDERS } from './colorOrders';
-import { Sp108ePlatformAccessory } from '../platformAccessory';
-
-// TODO: find out these values?
-const WARM_WHITE = 'ff6717';
-const NATURAL_WHITE = '?';
-const COLD_WHITE = '?';
-const CMD_GET_NAME = '77';
-const CMD_SET_CHIP_TYPE = '1c';
-const CMD_SET_COLOR_ORDER = '3c';
-const CMD_SET_SEGMENTS = '2e';
-const CMD_SET_LEDS_PER_SEGMENT = '2d';
-const CMD_GET_STATUS = '10';
-const CMD_PREFIX = '38';
-const CMD_SUFFIX = '83';
-const CMD_TOGGLE = 'aa';
-const CMD_SET_ANIMATION_MODE = '2c';
-const CMD_SET_BRIGHTNESS = '2a'; // Param: 00-FF
-const CMD_SET_WHITE_BRIGHTNESS = '08'; // Param: 00-FF
-const CMD_SET_SPEED = '03'; // Param: 00-FF
-const CMD_SET_COLOR = '22'; // RGB: 000000-FFFFFF
-const CMD_SET_DREAM_MODE = '2C'; // Param: 1-180
-const CMD_SET_DREAM_MODE_AUTO = '06'; // Param: 00
-const CMD_SET_CUSTOM = '02';
-
-const NO_PARAMETER = '000000';
+import { COMMANDS, CommandName, encodeFrame, validateResponse, decodeStatus, decodeName, calculateHsv, sp108eStatus } from './protocol';
+import { ConnectionHealth, ConnectionHealthOptions, HealthState } from './connectionHealth';
+import { CommandQueue, CommandQueueStats } from './commandQueue';
+import { FrameReader } from './frameReader';
+
+export { hsv, sp108eStatus, ProtocolError } from './protocol';
+export { HealthState, CircuitOpenError, ConnectionHealthOptions } from './connectionHealth';
+export { CommandQueueStats } from './commandQueue';
+
+/**
+ * Subset of the Homebridge logger (and console) the client logs to
+ */
+export interface sp108eLogger {
+  info(message: string, ...parameters: unknown[]): void;
+  debug(message: string, ...parameters: unknown[]): void;
+}
 
 export interface sp108eOptions {
   host: string;
   port: number;
   type?: string;
+  // log retries, socket events etc. through logger.info
+  debug?: boolean;
+  logger?: sp108eLogger;
+  // connect and read timeout per attempt
+  timeout?: number;
+  // retries after a failed attempt and the delay before the first retry (doubled for every further one)
+  retries?: number;
+  retryDelay?: number;
+  health?: ConnectionHealthOptions;
 }
 
-export interface hsv {
-  hue: number;
-  saturation: number;
-  value: number;
-}
-
-export interface sp108eStatus {
-  rawResponse: string;
-  on: boolean;
-  animationMode: number;
-  presetEffectMode: number;
-//  customEffectMode: number;
-  animationSpeed: number;
-  animationSpeedPercentage: number;
-  brightness: number;
-  brightnessPercentage: number;
-  colorOrder: number;
-  ledsPerSegment: number;
-  numberOfSegments: number;
-  color: string;
-  hsv: hsv;
-  icType: number;
-  recordedPatterns: number;
-  whiteBrightness: number;
-  whiteBrightnessPercentage: number;
-}
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 200;
+
+// writes that set a value, a queued write of the same kind is superseded by a newer one
+const SUPERSEDABLE_WRITES: { [command in CommandName]?: string } = {
+  SET_BRIGHTNESS: 'brightness',
+  SET_WHITE_BRIGHTNESS: 'white',
+  SET_SPEED: 'speed',
+  SET_COLOR: 'color',
+  SET_ANIMATION_MODE: 'mode',
+  SET_DREAM_MODE: 'mode',
+  SET_DREAM_MODE_AUTO: 'mode',
+  SET_CUSTOM: 'mode',
+};
+
+const silentLogger: sp108eLogger = {
+  info: () => undefined,
+  debug: () => undefined,
+};
 
+/**
+ * SP108E client
+ * `events` emits:
+ * - 'connect' / 'disconnect' when the persistent socket is (re)established or lost
+ * - 'status' (status: sp108eStatus) when a read status differs from the previous one
+ * - 'health' (state, previousState, lastError) on transitions of the connection health
+ * - 'write' (command) when a command that changes the state of the controller completed
+ */
 export default class sp108e {
-  constructor(private readonly options: sp108eOptions, private readonly accessory: Sp108ePlatformAccessory) {
+  private readonly log: sp108eLogger;
+  private readonly debug: boolean;
+  private readonly timeout: number;
+  private readonly maxRetries: number;
+  private readonly retryDelay: number;
+  private lastStatus?: sp108eStatus;
+
+  /**
+   * Fed with the outcome of every command, rejects commands while the device is offline
+   */
+  readonly health: ConnectionHealth;
+  // separate emitter, on() / off() switch the leds
+  readonly events = new EventEmitter();
+
+  constructor(private readonly options: sp108eOptions) {
     this.options = options;
-    this.accessory = accessory;
+    this.log = options.logger ?? silentLogger;
+    this.debug = Boolean(options.debug);
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT_MS;
+    this.maxRetries = options.retries ?? DEFAULT_RETRIES;
+    this.retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY_MS;
+
+    this.health = new ConnectionHealth(options.health);
+    this.health.on('change', (state: HealthState, previous: HealthState, lastError?: unknown) => {
+      this.events.emit('health', state, previous, lastError);
+    });
   }
 
   // Persistent socket management
   private _rawSocket?: net.Socket;
   private _client?: PromiseSocket<net.Socket>;
   private _connected = false;
-  private _sendQueue: Promise<any> = Promise.resolve();
-  private readonly SEND_MAX_RETRIES = 3;
-  private readonly SEND_BASE_DELAY_MS = 200;
-  private readonly SEND_TIMEOUT_MS = 5000;
+  // replies are cut from the bytes received on the socket, unexpected bytes are dropped
+  private readonly _frames = new FrameReader((data, reason) => {
+    this.debug && this.log.debug(`Discarded ${data.length} bytes (${reason}) ->`, data.toString('hex'));
+  });
+
+  private readonly _queue = new CommandQueue();
+  // queued or running commands that change the state, status reads don't count
+  private _pendingWrites = 0;
+  private readonly POWER_MAX_TOGGLES = 3;
+  private readonly POWER_SETTLE_MS = 250;
 
   private delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
 
@@ -93,12 +124,19 @@ export default class sp108e {
     try {
       this._rawSocket?.destroy();
     } catch (_) { /* ignore */ }
-    this._rawSocket = new net.Socket();
+    const socket = new net.Socket();
+    this._rawSocket = socket;
     this._rawSocket.setKeepAlive(true);
+    this._rawSocket.on('data', (chunk: Buffer) => {
+      // a destroyed socket may still deliver buffered data
+      if (socket === this._rawSocket) {
+        this._frames.push(chunk);
+      }
+    });
     // Attach temporary error/close handlers for this socket instance
     this._rawSocket.on('error', (err) => {
-      this.accessory.isDebuggEnabled && this.accessory.platform.log.debug('Socket error ->', err);
-      this._connected = false;
+      this.debug && this.log.debug('Socket error ->', err);
+      this.setDisconnected();
       try {
         this._rawSocket?.destroy();
       } catch (_) { /* ignore */ }
@@ -106,9 +144,13 @@ export default class sp108e {
     });
 
     this._rawSocket.on('close', () => {
-      this.accessory.isDebuggEnabled && this.accessory.platform.log.debug('Socket closed');
-      this._connected = false;
+      this.debug && this.log.debug('Socket closed');
+      this.setDisconnected();
       this._client = undefined;
+      // fail a waiting read right away instead of at its timeout
+      if (socket === this._rawSocket) {
+        this._frames.reset(new Error('Socket closed'));
+      }
     });
 
     // Connect with a timeout so we don't hang indefinitely
@@ -121,7 +163,7 @@ export default class sp108e {
         }
         resolve();
       };
-      const onError = (err: any) => {
+      const onError = (err: Error) => {
         cleanup();
         if (timer) {
           clearTimeout(timer);
@@ -146,13 +188,21 @@ export default class sp108e {
       this._rawSocket?.connect(this.options.port, this.options.host);
 
       // enforce connect timeout
-      timer = setTimeout(onTimeout, this.SEND_TIMEOUT_MS);
+      timer = setTimeout(onTimeout, this.timeout);
     });
 
     await connectPromise;
     const client = new PromiseSocket(this._rawSocket);
     this._client = client;
     this._connected = true;
+    this.events.emit('connect');
+  }
+
+  private setDisconnected() {
+    if (this._connected) {
+      this._connected = false;
+      this.events.emit('disconnect');
+    }
   }
 
   private _forceDisconnect() {
@@ -160,15 +210,26 @@ export default class sp108e {
       this._rawSocket?.destroy();
     } catch (_) { /* ignore */ }
     this._client = undefined;
-    this._connected = false;
+    this._frames.reset(new Error('Connection reset'));
+    this.setDisconnected();
   }
 
+  /**
+   * Points the client to a new address, e.g. after the controller got a new DHCP lease
+   */
+  setAddress = (host: string, port = this.options.port) => {
+    this.options.host = host;
+    this.options.port = port;
+    this._forceDisconnect();
+    this.health.probeNow();
+  };
+
   setChipType = async (chipType: string) => {
     const index = CHIP_TYPES.indexOf(chipType);
     if (index === -1) {
       throw new Error('Invalid chip type: ' + chipType);
     }
-    return await this.send(CMD_SET_CHIP_TYPE, this.intToHex(index));
+    return await this.send('SET_CHIP_TYPE', index);
   };
 
   setColorOrder = async (colorOrder: string) => {
@@ -176,83 +237,92 @@ export default class sp108e {
     if (index === -1) {
       throw new Error('Invalid color order: ' + colorOrder);
     }
-    return await this.send(CMD_SET_COLOR_ORDER, this.intToHex(index));
+    return await this.send('SET_COLOR_ORDER', index);
   };
 
   setSegments = async (segments: number) => {
-    return await this.send(CMD_SET_SEGMENTS, this.intToHex(segments));
+    return await this.send('SET_SEGMENTS', segments);
   };
 
   setLedsPerSegment = async (ledsPerSegment: number) => {
-    return await this.send(CMD_SET_LEDS_PER_SEGMENT, this.intToHex(ledsPerSegment));
+    return await this.send('SET_LEDS_PER_SEGMENT', ledsPerSegment);
   };
 
   /**
-   * Toggles the led lights on or off
+   * Toggles the led lights on or off, prefer setPower() which doesn't depend on the current state
    */
   toggleOnOff = async () => {
-    return await this.send(CMD_TOGGLE, NO_PARAMETER, 17);
+    return this.updateStatus(decodeStatus(await this.send('TOGGLE')));
   };
 
   /**
-   * Toggles the led lights on
+   * Switches the led lights on or off. The protocol only knows a toggle, so the state is read, toggled and
+   * verified with a fresh read in one transaction that no other command can interleave with.
+   * @returns the verified status
+   * @throws when the device still reports the wrong state after POWER_MAX_TOGGLES toggles
+   */
+  setPower = async (on: boolean): Promise<sp108eStatus> => {
+    return this.enqueueWrite('TOGGLE', undefined, async () => {
+      for (let toggles = 0; ; toggles++) {
+        const status = this.updateStatus(decodeStatus(await this.execute('GET_STATUS')));
+        if (status.on === on) {
+          return status;
+        }
+        if (toggles === this.POWER_MAX_TOGGLES) {
+          throw new Error(`Device is still ${status.on ? 'on' : 'off'} after ${toggles} toggles`);
+        }
+        this.debug && this.log.info('Toggling power, attempt ->', toggles + 1);
+        await this.execute('TOGGLE');
+        // the state reported right after the toggle is not reliable
+        await this.delay(this.POWER_SETTLE_MS);
+      }
+    });
+  };
+
+  /**
+   * Switches the led lights off
    */
   off = async () => {
-    const status = await this.getStatus();
-    if (status.on) {
-      return await this.toggleOnOff();
-    }
+    return await this.setPower(false);
   };
 
   /**
-   * Toggles the led lights on
+   * Switches the led lights on
    */
   on = async () => {
-    const status = await this.getStatus();
-    if (!status.on) {
-      return await this.toggleOnOff();
-    }
+    return await this.setPower(true);
   };
 
   /**
    * Gets the status of the sp108e, on/off, color, etc
    */
   getStatus = async (): Promise<sp108eStatus> => {
-
-    const response = await this.send(CMD_GET_STATUS, NO_PARAMETER, 17);
-    const anyMode = parseInt(response.substring(4, 6), 16);
-    return {
-      rawResponse: response,
-      on: response.substring(2, 4) === '01',
-      animationMode: anyMode> 180 ? anyMode : UNKNOWN_MODE,
-      presetEffectMode: anyMode < 180 ? anyMode : UNKNOWN_MODE,
-      animationSpeed: parseInt(response.substring(6, 8), 16),
-      animationSpeedPercentage: parseInt(response.substring(6, 8), 16) / 255 * 100,
-      brightness: parseInt(response.substring(8, 10), 16),
-      brightnessPercentage: parseInt(response.substring(8, 10), 16) / 255 * 100,
-      colorOrder: parseInt(response.substring(10, 12), 16),
-      ledsPerSegment: parseInt(response.substring(12, 16), 16),
-      numberOfSegments: parseInt(response.substring(16, 20), 16),
-      color: response.substring(20, 26),
-      hsv: this.calculateHsv(response.substring(20, 26)),
-      icType: parseInt(response.substring(26, 28), 16),
-      recordedPatterns: parseInt(response.substring(28, 30), 16),
-      whiteBrightness: parseInt(response.substring(30, 32), 16),
-      whiteBrightnessPercentage: parseInt(response.substring(30, 32), 16) / 255 * 100,
-    };
+    return this.updateStatus(decodeStatus(await this.send('GET_STATUS')));
   };
 
-  calculateHsv = (hexColor: string): hsv => {
-    const hsv = colorConvert.hex.hsv(hexColor);
-    return { hue: hsv[0], saturation: hsv[1], value: hsv[2] };
+  private updateStatus(status: sp108eStatus): sp108eStatus {
+    if (status.rawResponse !== this.lastStatus?.rawResponse) {
+      this.lastStatus = status;
+      this.events.emit('status', status);
+    }
+    return status;
+  }
+
+  /**
+   * Gets the name the controller reports for itself, used as its identity
+   */
+  getName = async (): Promise<string> => {
+    return decodeName(await this.send('GET_NAME'));
   };
 
+  calculateHsv = calculateHsv;
+
   /**
    * Sets the brightness of the leds
    * @param {integer} brightness any integer from 0-255
    */
   setBrightness = async (brightness: number) => {
-    return await this.send(CMD_SET_BRIGHTNESS, this.intToHex(brightness), 0);
+    return await this.send('SET_BRIGHTNESS', brightness);
   };
 
   setBrightnessPercentage = async (brightnessPercentage: number) => {
@@ -263,7 +333,7 @@ export default class sp108e {
     if (brightness < 1) {
       brightness = 1;
     }
-    return await this.send(CMD_SET_WHITE_BRIGHTNESS, this.intToHex(brightness), 0);
+    return await this.send('SET_WHITE_BRIGHTNESS', brightness);
   };
 
   setWhiteBrightnessPercentage = async (brightnessPercentage: number) => {
@@ -271,15 +341,16 @@ export default class sp108e {
   };
 
   /**
-   * Sets the color of the leds
+   * Sets the color of the leds, switching to the static mode first when an animation or preset runs
    * @param {string} hexColor Hex color without hash. e.g, "FFAABB"
+   * @param {sp108eStatus} knownStatus Status to check the animation mode against, fetched when not given
    */
-  setColor = async (hexColor: string) => {
-    const status = await this.getStatus();
-    if (status.animationMode === 0) {
-      await this.send(CMD_SET_ANIMATION_MODE, this.intToHex(ANIMATION_MODE_STATIC));
+  setColor = async (hexColor: string, knownStatus?: sp108eStatus) => {
+    const status = knownStatus ?? await this.getStatus();
+    if (status.animationMode !== ANIMATION_MODE_STATIC) {
+      await this.send('SET_ANIMATION_MODE', ANIMATION_MODE_STATIC);
     }
-    return await this.send(CMD_SET_COLOR, hexColor, 0);
+    return await this.send('SET_COLOR', hexColor);
   };
 
   /**
@@ -287,7 +358,7 @@ export default class sp108e {
    * @param {number} animationMode Use one of the ANIMATION_MODE_XXXX constants. Defaults to ANIMATION_MODE_STATIC
    */
   setAnimationMode = async (animationMode: number) => {
-    return await this.send(CMD_SET_ANIMATION_MODE, this.intToHex(animationMode));
+    return await this.send('SET_ANIMATION_MODE', animationMode);
   };
 
   /**
@@ -296,8 +367,26 @@ export default class sp108e {
    */
   setPresetMode = async (presetMode: number) => {
     const truncated = Math.min(Math.max(presetMode, 0), 179);
-    this.accessory.isDebuggEnabled && this.accessory.platform.log.info('set preset mode ->', truncated);
-    return await this.send(CMD_SET_DREAM_MODE, this.intToHex(truncated));
+    this.debug && this.log.info('set preset mode ->', truncated);
+    return await this.send('SET_DREAM_MODE', truncated);
+  };
+
+  /**
+   * Lets the controller cycle through all preset modes on its own, any mode command ends it
+   */
+  setDreamModeAuto = async () => {
+    return await this.send('SET_DREAM_MODE_AUTO');
+  };
+
+  /**
+   * Sets one of the custom effects recorded with the vendor app
+   * @param {number} customEffect any integer 1-12, use one of the CUSTOM_EFFECT_XX constants
+   */
+  setCustomEffect = async (customEffect: number) => {
+    if (customEffect < CUSTOM_EFFECT_1 || customEffect > CUSTOM_EFFECT_12) {
+      throw new Error('Invalid custom effect: ' + customEffect);
+    }
+    return await this.send('SET_CUSTOM', customEffect);
   };
 
   /**
@@ -305,89 +394,121 @@ export default class sp108e {
    * @param {integer} speed any integer 0-255
    */
   setAnimationSpeed = async (speed: number) => {
-    return await this.send(CMD_SET_SPEED, this.intToHex(speed), 0);
+    return await this.send('SET_SPEED', speed);
   };
 
   setAnimationSpeedPercentage = async (speedPercentage: number) => {
     return await this.setAnimationSpeed(Math.ceil(speedPercentage / 100 * 255));
   };
 
-  intToHex = (int: number | undefined) => {
-    const value = int ?? 0;
-    return value.toString(16).padStart(2, '0');
+  /**
+   * Sends a command and returns the validated reply (empty for commands without a reply)
+   * @param {CommandName} command one of the COMMANDS definitions
+   * @param {number|string} value parameter of the command, range checked by the codec
+   */
+  send = async (command: CommandName, value?: number | string): Promise<Buffer> => {
+    if (command === 'GET_STATUS' || command === 'GET_NAME') {
+      return this._queue.run(() => this.execute(command, value), { priority: 'poll', key: command });
+    }
+    return this.enqueueWrite(command, SUPERSEDABLE_WRITES[command], () => this.execute(command, value));
   };
 
-  send = async (cmd: string, parameter = NO_PARAMETER, responseLength = 0): Promise<string> => {
-    const attemptExecute = async (): Promise<string> => {
+  /**
+   * Number of queued or running commands that change the state of the controller
+   */
+  get pendingWrites(): number {
+    return this._pendingWrites;
+  }
+
+  /**
+   * Depth of the command queue and how long commands waited in it
+   */
+  get queueStats(): CommandQueueStats {
+    return this._queue.stats;
+  }
+
+  /**
+   * Queues a task that changes the state ahead of the polls, counted in pendingWrites and announced with a 'write'
+   * event once done. Tasks use execute() to send their commands without being interleaved.
+   * @param {string} supersedes kind of write a newer task of the same kind replaces while this one still waits
+   */
+  private enqueueWrite = async <T>(command: CommandName, supersedes: string | undefined, task: () => Promise<T>): Promise<T> => {
+    this._pendingWrites++;
+    try {
+      return await this._queue.run(task, { priority: 'write', key: supersedes });
+    } catch (err) {
+      this.debug && this.log.debug('send() queue error ->', err);
+      throw err;
+    } finally {
+      this._pendingWrites--;
+      this.events.emit('write', command);
+    }
+  };
+
+  /**
+   * Sends a command with retries, bypassing the queue (callers must hold it)
+   */
+  private execute = async (command: CommandName, value?: number | string): Promise<Buffer> => {
+    // encode outside of the retry loop, invalid parameters are not worth retrying
+    const frame = encodeFrame(command, value);
+    const responseLength = COMMANDS[command].responseLength;
+
+    // fails fast while the device is offline, except for the periodic probes
+    this.health.checkCircuit();
+    // a probe gets a single attempt, retrying a dead host only delays the queue
+    const maxRetries = this.health.state === 'offline' ? 0 : this.maxRetries;
+
+    const attemptExecute = async (): Promise<Buffer> => {
       // Ensure persistent connection is established
       await this.ensureConnected();
       if (!this._client) {
         throw new Error('Unable to establish connection');
       }
 
-      const hex = CMD_PREFIX + parameter.padEnd(6, '0') + cmd + CMD_SUFFIX;
-      const rawHex = Buffer.from(hex, 'hex');
-
+      // wait for the reply before writing, a fast controller may answer before write() resolves
+      const reply = responseLength > 0 ? this._frames.expect(responseLength, this.timeout) : undefined;
+      // handled below, unless the write fails first
+      reply?.catch(() => undefined);
       try {
-        await this._client.write(rawHex);
-
-        if (responseLength > 0) {
-          // read with per-operation timeout
-          const readPromise = this._client.read(responseLength);
-          let t: NodeJS.Timeout | undefined;
-          const timeoutPromise = new Promise<never>((_, reject) => {
-            t = setTimeout(() => {
-              // Force reconnect on timeout
-              this._forceDisconnect();
-              reject(new Error('send() read timeout'));
-            }, this.SEND_TIMEOUT_MS);
-          });
-          const responseBuf = await Promise.race([readPromise, timeoutPromise]) as Buffer | undefined;
-          if (t) {
-            clearTimeout(t);
-          }
-          return responseBuf ? responseBuf.toString('hex') : '';
+        await this._client.write(frame);
+
+        if (reply) {
+          // a missing reply is retried like any other transient error
+          return validateResponse(await reply, responseLength);
         }
 
         // write-only command: small delay to avoid overwhelming device
         await this.sleep();
-        return '';
+        return Buffer.alloc(0);
       } catch (err) {
-        // On any error, force disconnect so next attempt reconnects
+        // On any error, force disconnect so next attempt reconnects, a half-open socket would keep timing out
         this._forceDisconnect();
         throw err;
       }
     };
 
-    const executeWithRetries = async (): Promise<string> => {
-      let lastErr: any = null;
-      for (let attempt = 0; attempt <= this.SEND_MAX_RETRIES; attempt++) {
-        try {
-          return await attemptExecute();
-        } catch (err) {
-          lastErr = err;
-          // Transient/network errors -> retry with exponential backoff
-          if (attempt < this.SEND_MAX_RETRIES) {
-            const backoff = this.SEND_BASE_DELAY_MS * Math.pow(2, attempt);
-            this.accessory.isDebuggEnabled && this.accessory.platform.log.info('send() failed, retrying after backoff ms ->', backoff, err);
-            await this.delay(backoff);
-            continue;
-          }
-          // Exhausted retries
-          throw lastErr;
+    let lastErr: unknown = null;
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        const response = await attemptExecute();
+        this.health.recordSuccess();
+        return response;
+      } catch (err) {
+        lastErr = err;
+        // Transient/network errors -> retry with exponential backoff
+        if (attempt < maxRetries) {
+          const backoff = this.retryDelay * Math.pow(2, attempt);
+          this.debug && this.log.info('send() failed, retrying after backoff ms ->', backoff, err);
+          await this.delay(backoff);
+          continue;
         }
+        // Exhausted retries
+        this.health.recordFailure(lastErr);
+        throw lastErr;
       }
-      // Should not reach here
-      throw lastErr;
-    };
-
-    // Queue execution to ensure only one send() runs at a time
-    const queued = this._sendQueue.then(() => executeWithRetries());
-    // Keep the queue chain alive even if a request fails
-    this._sendQueue = queued.catch((err) => {
-      this.accessory.isDebuggEnabled && this.accessory.platform.log.debug('send() queue error ->', err);
-    });
-    return queued;
+    }
+    // Should not reach here
+    throw lastErr;
   };
 
   sleep = () => {
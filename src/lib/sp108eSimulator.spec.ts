@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import * as net from 'net';
+import { Sp108eSimulator, Sp108eSimulatorCommand } from './sp108eSimulator';
+import {
+  COMMANDS, CUSTOM_EFFECT_MODE_OFFSET, NAME_RESPONSE_LENGTH, STATUS_RESPONSE_LENGTH, decodeName, decodeStatus, encodeFrame,
+} from './protocol';
+import { ANIMATION_MODE_WAVE } from './animationModes';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Raw connection to the simulator, collecting everything it replies
+ */
+const connect = async (port: number) => {
+  const socket = net.connect(port, '127.0.0.1');
+  await new Promise(resolve => socket.once('connect', resolve));
+  let received = Buffer.alloc(0);
+  socket.on('data', (data: Buffer) => {
+    received = Buffer.concat([received, data]);
+  });
+  return {
+    socket,
+    // waits for `length` more bytes and returns them
+    read: async (length: number) => {
+      while (received.length < length) {
+        if (socket.destroyed) {
+          throw new Error('Connection closed');
+        }
+        await delay(5);
+      }
+      const reply = received.slice(0, length);
+      received = received.slice(length);
+      return reply;
+    },
+  };
+};
+
+describe('sp108e simulator', () => {
+  let simulator: Sp108eSimulator;
+  let port: number;
+
+  beforeEach(async () => {
+    simulator = new Sp108eSimulator({ port: 0, state: { name: 'Kitchen' }, autoCycleMs: 10 });
+    port = await simulator.start();
+  });
+
+  afterEach(async () => {
+    await simulator.stop();
+  });
+
+  it('answers status and name requests with its state', async () => {
+    const client = await connect(port);
+    client.socket.write(encodeFrame('GET_STATUS'));
+    const status = decodeStatus(await client.read(STATUS_RESPONSE_LENGTH));
+    assert.strictEqual(status.on, true);
+    assert.strictEqual(status.color, simulator.state.color);
+
+    client.socket.write(encodeFrame('GET_NAME'));
+    assert.strictEqual(decodeName(await client.read(NAME_RESPONSE_LENGTH)), 'Kitchen');
+  });
+
+  it('applies write commands and toggles with a status reply', async () => {
+    const commands: Sp108eSimulatorCommand[] = [];
+    simulator.on('command', (command: Sp108eSimulatorCommand) => commands.push(command));
+    const client = await connect(port);
+
+    client.socket.write(Buffer.concat([
+      encodeFrame('SET_COLOR', 'ff8800'),
+      encodeFrame('SET_BRIGHTNESS', 100),
+      encodeFrame('SET_SEGMENTS', 3),
+      encodeFrame('SET_CUSTOM', 2),
+      encodeFrame('TOGGLE'),
+    ]));
+    const status = decodeStatus(await client.read(STATUS_RESPONSE_LENGTH));
+
+    assert.strictEqual(status.on, false);
+    assert.deepStrictEqual(
+      { color: simulator.state.color, brightness: simulator.state.brightness, segments: simulator.state.segments },
+      { color: 'ff8800', brightness: 100, segments: 3 },
+    );
+    assert.strictEqual(simulator.state.mode, CUSTOM_EFFECT_MODE_OFFSET + 2);
+    assert.deepStrictEqual(commands.map(command => command.cmd), [
+      COMMANDS.SET_COLOR.code, COMMANDS.SET_BRIGHTNESS.code, COMMANDS.SET_SEGMENTS.code, COMMANDS.SET_CUSTOM.code, COMMANDS.TOGGLE.code,
+    ]);
+  });
+
+  it('resynchronizes on garbage and frames split across packets', async () => {
+    const client = await connect(port);
+    const frame = encodeFrame('SET_BRIGHTNESS', 42);
+    client.socket.write(Buffer.from([0x00, 0x38, 0x11]));
+    client.socket.write(frame.slice(0, 2));
+    await delay(20);
+    client.socket.write(frame.slice(2));
+    client.socket.write(encodeFrame('GET_STATUS'));
+
+    assert.strictEqual(decodeStatus(await client.read(STATUS_RESPONSE_LENGTH)).brightness, 42);
+  });
+
+  it('cycles the preset effects in auto mode until an animation is set', async () => {
+    const client = await connect(port);
+    client.socket.write(encodeFrame('SET_DREAM_MODE_AUTO'));
+    await delay(50);
+    assert.ok(simulator.state.mode > 0);
+
+    client.socket.write(encodeFrame('SET_ANIMATION_MODE', ANIMATION_MODE_WAVE));
+    await delay(50);
+    assert.strictEqual(simulator.state.mode, ANIMATION_MODE_WAVE);
+  });
+
+  it('corrupts replies and drops connections on request', async () => {
+    // with random() = 0 a corrupted reply keeps its length and loses header and trailer
+    const faulty = new Sp108eSimulator({ port: 0, random: () => 0 });
+    const client = await connect(await faulty.start());
+    try {
+      faulty.malformNext();
+      client.socket.write(Buffer.concat([encodeFrame('GET_STATUS'), encodeFrame('GET_STATUS')]));
+      const corrupted = await client.read(STATUS_RESPONSE_LENGTH);
+      assert.throws(() => decodeStatus(corrupted), /Invalid response frame/);
+      assert.strictEqual(decodeStatus(await client.read(STATUS_RESPONSE_LENGTH)).on, true);
+
+      faulty.dropNext();
+      client.socket.write(encodeFrame('GET_STATUS'));
+      await new Promise(resolve => client.socket.once('close', resolve));
+    } finally {
+      await faulty.stop();
+    }
+  });
+});
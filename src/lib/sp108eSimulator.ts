@@ -0,0 +1,353 @@
+/**
+ * Local SP108E simulator
+ * A TCP server speaking the controller's binary protocol, used to exercise the plugin without real hardware.
+ * See protocol.ts for the frame layouts.
+ */
+import * as net from 'net';
+import { EventEmitter } from 'events';
+import { ANIMATION_MODE_STATIC } from './animationModes';
+import {
+  COMMANDS, CUSTOM_EFFECT_MODE_OFFSET, FRAME_HEADER, FRAME_TRAILER, REQUEST_LENGTH, STATUS_RESPONSE_LENGTH, NAME_RESPONSE_LENGTH,
+} from './protocol';
+
+const CMD_GET_STATUS = COMMANDS.GET_STATUS.code;
+const CMD_GET_NAME = COMMANDS.GET_NAME.code;
+const CMD_TOGGLE = COMMANDS.TOGGLE.code;
+const CMD_SET_CHIP_TYPE = COMMANDS.SET_CHIP_TYPE.code;
+const CMD_SET_COLOR_ORDER = COMMANDS.SET_COLOR_ORDER.code;
+const CMD_SET_SEGMENTS = COMMANDS.SET_SEGMENTS.code;
+const CMD_SET_LEDS_PER_SEGMENT = COMMANDS.SET_LEDS_PER_SEGMENT.code;
+const CMD_SET_ANIMATION_MODE = COMMANDS.SET_ANIMATION_MODE.code;
+const CMD_SET_BRIGHTNESS = COMMANDS.SET_BRIGHTNESS.code;
+const CMD_SET_WHITE_BRIGHTNESS = COMMANDS.SET_WHITE_BRIGHTNESS.code;
+const CMD_SET_SPEED = COMMANDS.SET_SPEED.code;
+const CMD_SET_COLOR = COMMANDS.SET_COLOR.code;
+const CMD_SET_CUSTOM = COMMANDS.SET_CUSTOM.code;
+const CMD_SET_DREAM_MODE_AUTO = COMMANDS.SET_DREAM_MODE_AUTO.code;
+
+// preset modes the firmware cycles through in auto mode
+const DREAM_MODE_COUNT = 180;
+
+export interface Sp108eSimulatorState {
+  name: string;
+  on: boolean;
+  mode: number;
+  speed: number;
+  brightness: number;
+  colorOrder: number;
+  ledsPerSegment: number;
+  segments: number;
+  color: string;
+  icType: number;
+  recordedPatterns: number;
+  whiteBrightness: number;
+}
+
+export interface Sp108eSimulatorFaults {
+  // delay before every reply is written
+  responseDelayMs?: number;
+  // probability (0-1) that the connection is destroyed instead of handling a frame
+  dropConnectionRate?: number;
+  // probability (0-1) that a reply is corrupted (bad header/trailer or truncated)
+  malformedResponseRate?: number;
+}
+
+export interface Sp108eSimulatorOptions {
+  host?: string;
+  port?: number;
+  state?: Partial<Sp108eSimulatorState>;
+  faults?: Sp108eSimulatorFaults;
+  random?: () => number;
+  // interval of the dream mode auto-cycle
+  autoCycleMs?: number;
+}
+
+export interface Sp108eSimulatorCommand {
+  cmd: number;
+  parameter: Buffer;
+}
+
+export const DEFAULT_SIMULATOR_STATE: Sp108eSimulatorState = {
+  name: 'SP108E_SIM',
+  on: true,
+  mode: ANIMATION_MODE_STATIC,
+  speed: 128,
+  brightness: 255,
+  colorOrder: 0,
+  ledsPerSegment: 60,
+  segments: 1,
+  color: 'ffffff',
+  icType: 3,
+  recordedPatterns: 0,
+  whiteBrightness: 0,
+};
+
+/**
+ * Fake SP108E controller
+ * Tracks the controller state in memory and answers the same commands the real firmware does.
+ * Emits 'command' for every decoded request frame and 'connection' for every accepted client.
+ */
+export class Sp108eSimulator extends EventEmitter {
+  public readonly state: Sp108eSimulatorState;
+  public faults: Sp108eSimulatorFaults;
+
+  private server?: net.Server;
+  private readonly sockets = new Set<net.Socket>();
+  private readonly random: () => number;
+  private pendingDrops = 0;
+  private pendingMalformed = 0;
+  private autoCycleTimer?: NodeJS.Timeout;
+
+  constructor(private readonly options: Sp108eSimulatorOptions = {}) {
+    super();
+    this.state = { ...DEFAULT_SIMULATOR_STATE, ...options.state };
+    this.faults = { ...options.faults };
+    this.random = options.random ?? Math.random;
+  }
+
+  /**
+   * Starts listening, resolves with the bound port (useful when port 0 was requested)
+   */
+  start = async (): Promise<number> => {
+    const server = net.createServer((socket) => this.handleConnection(socket));
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? 0, this.options.host ?? '127.0.0.1', () => {
+        server.removeListener('error', reject);
+        resolve();
+      });
+    });
+
+    return (server.address() as net.AddressInfo).port;
+  };
+
+  stop = async (): Promise<void> => {
+    this.stopAutoCycle();
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    this.sockets.clear();
+
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  };
+
+  /**
+   * Destroys the connection on the next `count` received frames
+   */
+  dropNext = (count = 1) => {
+    this.pendingDrops += count;
+  };
+
+  /**
+   * Corrupts the next `count` replies
+   */
+  malformNext = (count = 1) => {
+    this.pendingMalformed += count;
+  };
+
+  /**
+   * Builds the 17 byte status reply for the current state
+   */
+  statusFrame = (): Buffer => {
+    const frame = Buffer.alloc(STATUS_RESPONSE_LENGTH);
+    frame[0] = FRAME_HEADER;
+    frame[1] = this.state.on ? 0x01 : 0x00;
+    frame[2] = this.state.mode;
+    frame[3] = this.state.speed;
+    frame[4] = this.state.brightness;
+    frame[5] = this.state.colorOrder;
+    frame.writeUInt16BE(this.state.ledsPerSegment, 6);
+    frame.writeUInt16BE(this.state.segments, 8);
+    Buffer.from(this.state.color.padStart(6, '0'), 'hex').copy(frame, 10);
+    frame[13] = this.state.icType;
+    frame[14] = this.state.recordedPatterns;
+    frame[15] = this.state.whiteBrightness;
+    frame[16] = FRAME_TRAILER;
+    return frame;
+  };
+
+  /**
+   * Builds the name reply: the ASCII name NUL padded between header and trailer
+   */
+  nameFrame = (): Buffer => {
+    const frame = Buffer.alloc(NAME_RESPONSE_LENGTH);
+    frame[0] = FRAME_HEADER;
+    Buffer.from(this.state.name, 'ascii').copy(frame, 1, 0, NAME_RESPONSE_LENGTH - 2);
+    frame[NAME_RESPONSE_LENGTH - 1] = FRAME_TRAILER;
+    return frame;
+  };
+
+  private handleConnection(socket: net.Socket) {
+    this.sockets.add(socket);
+    this.emit('connection', socket);
+
+    let buffer = Buffer.alloc(0);
+    socket.on('data', (data: Buffer) => {
+      buffer = Buffer.concat([buffer, data]);
+
+      for (;;) {
+        // resynchronise on the next header byte, the firmware silently ignores garbage
+        const start = buffer.indexOf(FRAME_HEADER);
+        if (start === -1) {
+          buffer = Buffer.alloc(0);
+          return;
+        }
+        buffer = buffer.slice(start);
+        if (buffer.length < REQUEST_LENGTH) {
+          return;
+        }
+
+        const frame = buffer.slice(0, REQUEST_LENGTH);
+        if (frame[REQUEST_LENGTH - 1] !== FRAME_TRAILER) {
+          buffer = buffer.slice(1);
+          continue;
+        }
+        buffer = buffer.slice(REQUEST_LENGTH);
+
+        if (this.shouldDrop()) {
+          socket.destroy();
+          return;
+        }
+        this.handleFrame(socket, frame);
+      }
+    });
+
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => this.sockets.delete(socket));
+  }
+
+  private handleFrame(socket: net.Socket, frame: Buffer) {
+    const command: Sp108eSimulatorCommand = { cmd: frame[4], parameter: frame.slice(1, 4) };
+    this.emit('command', command);
+
+    const reply = this.apply(command);
+    if (!reply) {
+      return;
+    }
+
+    const send = () => {
+      if (!socket.destroyed) {
+        socket.write(this.shouldMalform() ? this.malform(reply) : reply);
+      }
+    };
+
+    const delay = this.faults.responseDelayMs ?? 0;
+    delay > 0 ? setTimeout(send, delay) : send();
+  }
+
+  /**
+   * Applies a command to the state and returns the reply, if the command has one
+   */
+  private apply({ cmd, parameter }: Sp108eSimulatorCommand): Buffer | undefined {
+    switch (cmd) {
+      case CMD_GET_STATUS:
+        return this.statusFrame();
+      case CMD_GET_NAME:
+        return this.nameFrame();
+      case CMD_TOGGLE:
+        this.state.on = !this.state.on;
+        return this.statusFrame();
+      case CMD_SET_ANIMATION_MODE:
+        this.stopAutoCycle();
+        this.state.mode = parameter[0];
+        return;
+      case CMD_SET_DREAM_MODE_AUTO:
+        this.startAutoCycle();
+        return;
+      case CMD_SET_CUSTOM:
+        this.stopAutoCycle();
+        this.state.mode = CUSTOM_EFFECT_MODE_OFFSET + parameter[0];
+        return;
+      case CMD_SET_BRIGHTNESS:
+        this.state.brightness = parameter[0];
+        return;
+      case CMD_SET_WHITE_BRIGHTNESS:
+        this.state.whiteBrightness = parameter[0];
+        return;
+      case CMD_SET_SPEED:
+        this.state.speed = parameter[0];
+        return;
+      case CMD_SET_COLOR:
+        this.state.color = parameter.toString('hex');
+        return;
+      case CMD_SET_CHIP_TYPE:
+        this.state.icType = parameter[0];
+        return;
+      case CMD_SET_COLOR_ORDER:
+        this.state.colorOrder = parameter[0];
+        return;
+      case CMD_SET_SEGMENTS:
+        this.state.segments = parameter.readUInt16BE(0);
+        return;
+      case CMD_SET_LEDS_PER_SEGMENT:
+        this.state.ledsPerSegment = parameter.readUInt16BE(0);
+        return;
+      default:
+        return;
+    }
+  }
+
+  private startAutoCycle() {
+    this.stopAutoCycle();
+    this.state.mode = 0;
+    this.autoCycleTimer = setInterval(() => {
+      this.state.mode = (this.state.mode + 1) % DREAM_MODE_COUNT;
+    }, this.options.autoCycleMs ?? 10000);
+  }
+
+  private stopAutoCycle() {
+    if (this.autoCycleTimer) {
+      clearInterval(this.autoCycleTimer);
+    }
+    this.autoCycleTimer = undefined;
+  }
+
+  private shouldDrop() {
+    if (this.pendingDrops > 0) {
+      this.pendingDrops--;
+      return true;
+    }
+    return this.random() < (this.faults.dropConnectionRate ?? 0);
+  }
+
+  private shouldMalform() {
+    if (this.pendingMalformed > 0) {
+      this.pendingMalformed--;
+      return true;
+    }
+    return this.random() < (this.faults.malformedResponseRate ?? 0);
+  }
+
+  private malform(reply: Buffer): Buffer {
+    const corrupted = Buffer.from(reply);
+    if (this.random() < 0.5) {
+      corrupted[0] = 0x00;
+      corrupted[corrupted.length - 1] = 0x00;
+      return corrupted;
+    }
+    return corrupted.slice(0, Math.floor(corrupted.length / 2));
+  }
+}
+
+/**
+ * Standalone usage: `npm run simulator -- [port] [name]`
+ */
+if (require.main === module) {
+  const port = parseInt(process.argv[2] ?? '8189', 10);
+  const simulator = new Sp108eSimulator({ host: '0.0.0.0', port, state: { name: process.argv[3] ?? DEFAULT_SIMULATOR_STATE.name } });
+  simulator.on('command', ({ cmd, parameter }: Sp108eSimulatorCommand) => {
+    process.stdout.write(`<- cmd ${cmd.toString(16).padStart(2, '0')} param ${parameter.toString('hex')}\n`);
+  });
+  simulator.start().then((boundPort) => {
+    process.stdout.write(`SP108E simulator listening on port ${boundPort}\n`);
+  }).catch((err) => {
+    process.stderr.write(`SP108E simulator failed to start: ${err.message}\n`);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import { TransitionEngine, interpolateColor, parseFadeDurations } from './transitions';
+
+describe('transitions', () => {
+  it('reads the fade durations, invalid ones are instant and long ones capped', () => {
+    assert.deepStrictEqual(parseFadeDurations({ on: 1500, off: -5, color: 'slow' }), { on: 1500, off: 0, color: 0 });
+    assert.deepStrictEqual(parseFadeDurations({ on: 120000 }), { on: 60000, off: 0, color: 0 });
+    assert.deepStrictEqual(parseFadeDurations(undefined), { on: 0, off: 0, color: 0 });
+  });
+
+  it('interpolates colors along the shorter way around the hue circle', () => {
+    assert.strictEqual(interpolateColor('ff0000', '0000ff', 0), 'ff0000');
+    assert.strictEqual(interpolateColor('ff0000', '0000ff', 1), '0000ff');
+    // red to blue passes magenta, not green
+    assert.strictEqual(interpolateColor('ff0000', '0000ff', 0.5), 'ff00ff');
+    // white takes the hue of the other color
+    assert.strictEqual(interpolateColor('ffffff', 'ff0000', 0.5), 'ff8080');
+  });
+
+  it('steps from 0 to 1 and always ends with t = 1', async () => {
+    const engine = new TransitionEngine(10);
+    const steps: number[] = [];
+    const completed = await engine.run('brightness', 100, async (t) => {
+      steps.push(t);
+    });
+    assert.strictEqual(completed, true);
+    assert.ok(steps.length > 1 && steps.length <= 11);
+    assert.ok(steps.every((t, i) => t > 0 && (i === 0 || t > steps[i - 1])));
+    assert.strictEqual(steps[steps.length - 1], 1);
+    assert.ok(!engine.isRunning('brightness'));
+  });
+
+  it('runs an instant transition as a single step', async () => {
+    const steps: number[] = [];
+    assert.strictEqual(await new TransitionEngine().run('color', 0, async (t) => {
+      steps.push(t);
+    }), true);
+    assert.deepStrictEqual(steps, [1]);
+  });
+
+  it('cancels a running transition of the same key only', async () => {
+    const engine = new TransitionEngine(10);
+    const first = engine.run('color', 1000, async () => undefined);
+    const brightness = engine.run('brightness', 50, async () => undefined);
+    const second = engine.run('color', 50, async () => undefined);
+
+    assert.strictEqual(await first, false);
+    assert.strictEqual(await second, true);
+    assert.strictEqual(await brightness, true);
+  });
+
+  it('stops all transitions on cancel without a key', async () => {
+    const engine = new TransitionEngine(10);
+    const steps: number[] = [];
+    const color = engine.run('color', 1000, async (t) => {
+      steps.push(t);
+    });
+    const routine = engine.run('routine', 1000, async () => undefined);
+    assert.ok(engine.isRunning());
+
+    engine.cancel();
+    assert.strictEqual(await color, false);
+    assert.strictEqual(await routine, false);
+    assert.ok(!engine.isRunning());
+    assert.deepStrictEqual(steps, []);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Transitions
+ * Fades brightness and color on the host by streaming intermediate values to the controller.
+ */
+import colorConvert from 'color-convert';
+
+// upper bound of the step rate, the client already paces write commands to what the controller accepts
+const DEFAULT_STEP_MS = 100;
+const MAX_FADE_MS = 60000;
+// long transitions (routines over minutes) get coarser steps, brightness has no more levels anyway
+const MAX_STEPS = 256;
+
+export interface FadeDurations {
+  // milliseconds, 0 = instant
+  on: number;
+  off: number;
+  color: number;
+}
+
+const duration = (value): number => {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(Math.round(value), 0), MAX_FADE_MS) : 0;
+};
+
+/**
+ * Reads the `fade` block of the device config, missing or invalid durations are instant
+ */
+export const parseFadeDurations = (config): FadeDurations => {
+  return { on: duration(config?.on), off: duration(config?.off), color: duration(config?.color) };
+};
+
+export const interpolate = (from: number, to: number, t: number): number => {
+  return from + (to - from) * t;
+};
+
+/**
+ * Interpolates two hex colors in HSV, along the shorter way around the hue circle.
+ * Gray, white and black have no hue of their own and take the hue of the other color.
+ */
+export const interpolateColor = (from: string, to: string, t: number): string => {
+  const [fromHue, fromSaturation, fromValue] = colorConvert.hex.hsv(from);
+  const [toHue, toSaturation, toValue] = colorConvert.hex.hsv(to);
+  const startHue = fromSaturation === 0 || fromValue === 0 ? toHue : fromHue;
+  const endHue = toSaturation === 0 || toValue === 0 ? startHue : toHue;
+
+  let hueDelta = endHue - startHue;
+  if (hueDelta > 180) {
+    hueDelta -= 360;
+  } else if (hueDelta < -180) {
+    hueDelta += 360;
+  }
+
+  const hue = (startHue + hueDelta * t + 360) % 360;
+  return colorConvert.hsv.hex([
+    Math.round(hue),
+    Math.round(interpolate(fromSaturation, toSaturation, t)),
+    Math.round(interpolate(fromValue, toValue, t)),
+  ]).toLowerCase();
+};
+
+interface RunningTransition {
+  cancelled: boolean;
+}
+
+export class TransitionEngine {
+  private readonly running = new Map<string, RunningTransition>();
+
+  /**
+   * @param {number} stepMs minimum time between two intermediate values
+   */
+  constructor(private readonly stepMs = DEFAULT_STEP_MS) {
+  }
+
+  /**
+   * Runs a transition of the key, cancelling the one of the same key already running.
+   * `step` is called with the progress (0 < t <= 1) and awaited, so a slow controller gets fewer steps
+   * instead of a growing backlog. The last step is always t = 1, long transitions take at most MAX_STEPS steps.
+   * @returns false when the transition was cancelled before it finished
+   */
+  run = async (key: string, durationMs: number, step: (t: number) => Promise<unknown>): Promise<boolean> => {
+    this.cancel(key);
+    const transition: RunningTransition = { cancelled: false };
+    this.running.set(key, transition);
+
+    const stepMs = Math.max(this.stepMs, durationMs / MAX_STEPS);
+    const start = Date.now();
+    let nextStep = start;
+    try {
+      for (;;) {
+        nextStep += stepMs;
+        const wait = nextStep - Date.now();
+        if (durationMs > 0 && wait > 0) {
+          await new Promise(resolve => setTimeout(resolve, wait));
+        }
+        if (transition.cancelled) {
+          return false;
+        }
+        const t = durationMs > 0 ? Math.min((Date.now() - start) / durationMs, 1) : 1;
+        await step(t);
+        if (t === 1) {
+          return true;
+        }
+      }
+    } finally {
+      if (this.running.get(key) === transition) {
+        this.running.delete(key);
+      }
+    }
+  };
+
+  /**
+   * Cancels the transition of the key (or all transitions), it stops before its next step
+   */
+  cancel = (key?: string) => {
+    for (const [runningKey, transition] of this.running) {
+      if (key === undefined || runningKey === key) {
+        transition.cancelled = true;
+        this.running.delete(runningKey);
+      }
+    }
+  };
+
+  isRunning = (key?: string): boolean => {
+    return key === undefined ? this.running.size > 0 : this.running.has(key);
+  };
+}
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { WriteCoalescer } from './writeCoalescer';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('write coalescer', () => {
+  it('sends only the last of rapid writes of a key and resolves all of them', async () => {
+    const coalescer = new WriteCoalescer(20);
+    const sent: number[] = [];
+    const writes = [1, 2, 3].map(value => coalescer.schedule('brightness', async () => sent.push(value)));
+
+    assert.ok(coalescer.isPending('brightness'));
+    await Promise.all(writes);
+    assert.deepStrictEqual(sent, [3]);
+    assert.ok(!coalescer.isPending());
+  });
+
+  it('sends the writes of different keys independently', async () => {
+    const coalescer = new WriteCoalescer(20);
+    const sent: string[] = [];
+    await Promise.all([
+      coalescer.schedule('color', async () => sent.push('color')),
+      coalescer.schedule('brightness', async () => sent.push('brightness')),
+    ]);
+    assert.deepStrictEqual(sent.sort(), ['brightness', 'color']);
+  });
+
+  it('rejects the replaced writes with the error of the sent one', async () => {
+    const coalescer = new WriteCoalescer(10);
+    const first = coalescer.schedule('color', async () => undefined);
+    const second = coalescer.schedule('color', async () => {
+      throw new Error('No response');
+    });
+    await assert.rejects(first, /No response/);
+    await assert.rejects(second, /No response/);
+    assert.ok(!coalescer.isPending('color'));
+  });
+
+  it('sends a write scheduled while the previous one is sent after it', async () => {
+    const coalescer = new WriteCoalescer(5);
+    const events: string[] = [];
+    const slow = coalescer.schedule('color', async () => {
+      events.push('start 1');
+      await delay(50);
+      events.push('end 1');
+    });
+    await delay(20);
+    const next = coalescer.schedule('color', async () => events.push('write 2'));
+
+    await Promise.all([slow, next]);
+    assert.deepStrictEqual(events, ['start 1', 'end 1', 'write 2']);
+  });
+});
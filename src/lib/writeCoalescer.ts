@@ -0,0 +1,81 @@
+/**
+ * Write coalescing
+ * Collects rapid writes per key (e.g. while a slider is dragged) and only sends the last one.
+ */
+
+interface PendingWrite {
+  write: () => Promise<unknown>;
+  waiters: { resolve: () => void; reject: (err: unknown) => void }[];
+}
+
+export class WriteCoalescer {
+  private readonly pending = new Map<string, PendingWrite>();
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  /**
+   * @param {number} delayMs quiet time after the last write of a key before it is flushed
+   */
+  constructor(private readonly delayMs: number) {
+  }
+
+  /**
+   * Schedules a write, replacing the pending write of the same key (last write wins).
+   * Resolves when the write that replaced it - or the write itself - has been flushed.
+   */
+  schedule = (key: string, write: () => Promise<unknown>): Promise<void> => {
+    return new Promise<void>((resolve, reject) => {
+      const waiters = this.pending.get(key)?.waiters ?? [];
+      waiters.push({ resolve, reject });
+      this.pending.set(key, { write, waiters });
+
+      const timer = this.timers.get(key);
+      if (timer) {
+        clearTimeout(timer);
+      }
+      this.timers.set(key, setTimeout(() => this.flush(key), this.delayMs));
+    });
+  };
+
+  /**
+   * Whether a write of the key (or of any key) is waiting or being sent
+   */
+  isPending = (key?: string): boolean => {
+    if (key === undefined) {
+      return this.pending.size > 0 || this.inFlight.size > 0;
+    }
+    return this.pending.has(key) || this.inFlight.has(key);
+  };
+
+  private flush = async (key: string) => {
+    this.timers.delete(key);
+
+    // writes of the same key are sent one after the other
+    const previous = this.inFlight.get(key);
+    if (previous) {
+      await previous.catch(() => undefined);
+    }
+
+    const pending = this.pending.get(key);
+    if (!pending || this.inFlight.has(key)) {
+      return;
+    }
+    this.pending.delete(key);
+
+    const running = pending.write();
+    this.inFlight.set(key, running);
+    try {
+      await running;
+      pending.waiters.forEach(waiter => waiter.resolve());
+    } catch (err) {
+      pending.waiters.forEach(waiter => waiter.reject(err));
+    } finally {
+      this.inFlight.delete(key);
+    }
+
+    // a write scheduled while this one was sent and whose timer already fired
+    if (this.pending.has(key) && !this.timers.has(key)) {
+      await this.flush(key);
+    }
+  };
+}
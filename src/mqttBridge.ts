@@ -0,0 +1,281 @@
+/**
+ * MQTT bridge
+ * Publishes the state of every controller to an MQTT broker, accepts commands and announces the controllers
+ * to Home Assistant with MQTT discovery. Commands go through the accessory handlers, so HomeKit stays in sync.
+ *
+ *   <baseTopic>/bridge/availability        online / offline (retained, last will)
+ *   <baseTopic>/<device>/availability      online / offline (retained)
+ *   <baseTopic>/<device>/status            decoded sp108eStatus (retained JSON)
+ *   <baseTopic>/<device>/state             Home Assistant JSON light state (retained)
+ *   <baseTopic>/<device>/set               Home Assistant JSON light command, with optional transition (seconds)
+ *   <baseTopic>/<device>/set/<command>     power (ON/OFF), brightness / white / speed (0-100), color (hex), effect (name or id)
+ */
+import { connect, MqttClient } from 'mqtt';
+import colorConvert from 'color-convert';
+import { Logger } from 'homebridge';
+import { Sp108ePlatformAccessory } from './platformAccessory';
+import { ANIMATION_MODES, PRESET_EFFECTS, CUSTOM_EFFECTS } from './lib/animationModes';
+import { resolveEffect } from './lib/playlist';
+import { redactUrl } from './lib/config';
+import { MANUFACTURER, MODEL } from './settings';
+
+const DEFAULT_BASE_TOPIC = 'sp108e';
+const DEFAULT_DISCOVERY_PREFIX = 'homeassistant';
+
+export interface MqttBridgeOptions {
+  url: string;
+  username?: string;
+  password?: string;
+  baseTopic?: string;
+  // disabled with false
+  homeAssistantDiscovery?: boolean;
+  discoveryPrefix?: string;
+}
+
+/**
+ * Topic segment of a device, derived from its name
+ */
+const topicName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'sp108e';
+
+const parseSwitch = (payload: string): boolean | undefined => {
+  const value = payload.trim().toLowerCase();
+  if (['on', 'true', '1'].includes(value)) {
+    return true;
+  }
+  if (['off', 'false', '0'].includes(value)) {
+    return false;
+  }
+  return undefined;
+};
+
+const parsePercentage = (payload: unknown): number | undefined => {
+  const value = Number(payload);
+  return typeof payload !== 'boolean' && Number.isFinite(value) && value >= 0 && value <= 100 ? value : undefined;
+};
+
+export class MqttBridge {
+  private client?: MqttClient;
+  private readonly baseTopic: string;
+
+  constructor(
+    private readonly log: Logger,
+    private readonly options: MqttBridgeOptions,
+    private readonly devices: () => Sp108ePlatformAccessory[],
+  ) {
+    this.baseTopic = (options.baseTopic || DEFAULT_BASE_TOPIC).replace(/\/+$/, '');
+  }
+
+  start = () => {
+    const availability = `${this.baseTopic}/bridge/availability`;
+    this.client = connect(this.options.url, {
+      username: this.options.username,
+      password: this.options.password,
+      will: { topic: availability, payload: 'offline', qos: 1, retain: true },
+    });
+
+    this.client.on('connect', () => {
+      this.log.info('Connected to MQTT broker', redactUrl(this.options.url));
+      this.client?.publish(availability, 'online', { qos: 1, retain: true });
+      this.client?.subscribe([`${this.baseTopic}/+/set`, `${this.baseTopic}/+/set/+`]);
+      for (const device of this.devices()) {
+        this.publishDiscovery(device);
+        this.publishState(device);
+      }
+    });
+    this.client.on('error', (err) => {
+      this.log.error('MQTT error ->', err.message);
+    });
+    this.client.on('message', (topic, payload) => {
+      this.handleMessage(topic, payload.toString()).catch((e) => {
+        this.log.error('MQTT command failed ->', topic, e);
+      });
+    });
+
+    for (const device of this.devices()) {
+      device.onStateChange(() => this.publishState(device));
+    }
+  };
+
+  stop = () => {
+    this.client?.publish(`${this.baseTopic}/bridge/availability`, 'offline', { qos: 1, retain: true });
+    this.client?.end();
+    this.client = undefined;
+  };
+
+  private topic(device: Sp108ePlatformAccessory, suffix: string) {
+    return `${this.baseTopic}/${topicName(device.name)}/${suffix}`;
+  }
+
+  private effectList(device: Sp108ePlatformAccessory): string[] {
+    return [
+      ...Object.values(ANIMATION_MODES),
+      ...Object.values(PRESET_EFFECTS),
+      ...Object.values(CUSTOM_EFFECTS).map(customEffect => device.customEffectName(customEffect)),
+    ];
+  }
+
+  private publishDiscovery(device: Sp108ePlatformAccessory) {
+    if (this.options.homeAssistantDiscovery === false) {
+      return;
+    }
+    const prefix = this.options.discoveryPrefix || DEFAULT_DISCOVERY_PREFIX;
+    const uniqueId = `sp108e_${device.id.replace(/-/g, '')}`;
+    const common = {
+      availability: [{ topic: `${this.baseTopic}/bridge/availability` }, { topic: this.topic(device, 'availability') }],
+      availability_mode: 'all',
+      device: { identifiers: [uniqueId], name: device.name, manufacturer: MANUFACTURER, model: MODEL },
+    };
+
+    const number = (suffix: string, name: string) => ({
+      ...common,
+      name: `${device.name} ${name}`,
+      unique_id: `${uniqueId}_${suffix}`,
+      state_topic: this.topic(device, 'state'),
+      value_template: `{{ value_json.${suffix} }}`,
+      command_topic: this.topic(device, `set/${suffix}`),
+      min: 0,
+      max: 100,
+      unit_of_measurement: '%',
+    });
+
+    const configs: [string, Record<string, unknown> | undefined][] = [
+      [`${prefix}/light/${uniqueId}/config`, {
+        ...common,
+        name: device.name,
+        unique_id: uniqueId,
+        schema: 'json',
+        state_topic: this.topic(device, 'state'),
+        command_topic: this.topic(device, 'set'),
+        brightness: true,
+        brightness_scale: 100,
+        color_mode: true,
+        supported_color_modes: ['rgb'],
+        effect: true,
+        effect_list: this.effectList(device),
+      }],
+      [`${prefix}/number/${uniqueId}_speed/config`, number('speed', 'Animation Speed')],
+      // an empty payload removes the entity, e.g. when the chip type changed from RGBW to RGB
+      [`${prefix}/number/${uniqueId}_white/config`, device.hasWhiteChannel ? number('white', 'White') : undefined],
+    ];
+    for (const [topic, config] of configs) {
+      this.client?.publish(topic, config ? JSON.stringify(config) : '', { qos: 1, retain: true });
+    }
+  }
+
+  private publishState(device: Sp108ePlatformAccessory) {
+    const state = device.getState();
+    const status = device.polledStatus;
+    if (!this.client?.connected || !state || !status) {
+      return;
+    }
+
+    this.client.publish(this.topic(device, 'availability'), state.health === 'offline' ? 'offline' : 'online', { retain: true });
+    this.client.publish(this.topic(device, 'status'), JSON.stringify(status), { retain: true });
+
+    const [r, g, b] = colorConvert.hex.rgb(state.color);
+    this.client.publish(this.topic(device, 'state'), JSON.stringify({
+      state: state.on ? 'ON' : 'OFF',
+      brightness: state.brightness,
+      color_mode: 'rgb',
+      color: { r, g, b },
+      effect: state.mode.name ?? null,
+      white: state.white,
+      speed: state.speed,
+    }), { retain: true });
+  }
+
+  private async handleMessage(topic: string, payload: string) {
+    const [, name, , command] = topic.slice(this.baseTopic.length).split('/');
+    const device = this.devices().find(candidate => topicName(candidate.name) === name);
+    if (!device) {
+      return;
+    }
+
+    if (command === undefined) {
+      await this.handleJsonCommand(device, payload);
+      return;
+    }
+
+    switch (command) {
+      case 'power': {
+        const on = parseSwitch(payload);
+        if (on === undefined) {
+          throw new Error('Invalid power ' + payload);
+        }
+        await device.applyPower(on);
+        break;
+      }
+      case 'brightness':
+      case 'white':
+      case 'speed': {
+        const value = parsePercentage(payload);
+        if (value === undefined) {
+          throw new Error(`Invalid ${command} ${payload}`);
+        }
+        command === 'brightness' && await device.applyBrightness(value);
+        command === 'white' && device.hasWhiteChannel && await device.applyWhite(value);
+        command === 'speed' && await device.applySpeed(value);
+        break;
+      }
+      case 'color': {
+        const color = payload.trim().replace('#', '').toLowerCase();
+        if (!/^[0-9a-f]{6}$/.test(color)) {
+          throw new Error('Invalid color ' + payload);
+        }
+        await device.applyColor(color);
+        break;
+      }
+      case 'effect':
+        await this.applyEffect(device, payload.trim());
+        break;
+      default:
+        this.log.warn('Unknown MQTT command ->', topic);
+    }
+  }
+
+  /**
+   * Home Assistant JSON schema: {"state": "ON", "brightness": 80, "color": {"r": 255, "g": 0, "b": 0}, "effect": "Rainbow"},
+   * optionally with "transition" in seconds
+   */
+  private async handleJsonCommand(device: Sp108ePlatformAccessory, payload: string) {
+    const command = JSON.parse(payload);
+    const transitionMs = typeof command.transition === 'number' && command.transition >= 0 ? command.transition * 1000 : undefined;
+    if (command.state === 'OFF') {
+      await device.applyPower(false, transitionMs);
+      return;
+    }
+    const brightness = parsePercentage(command.brightness);
+    // a fade to a new brightness switches the strip on by itself, starting from dark
+    if (command.state === 'ON' && !device.getState()?.on && (brightness === undefined || !transitionMs)) {
+      await device.applyPower(true, transitionMs);
+    }
+    if (brightness !== undefined) {
+      await device.applyBrightness(brightness, transitionMs);
+    }
+    if (command.color && [command.color.r, command.color.g, command.color.b].every(Number.isInteger)) {
+      await device.applyColor(colorConvert.rgb.hex([command.color.r, command.color.g, command.color.b]).toLowerCase(), transitionMs);
+    }
+    if (typeof command.effect === 'string') {
+      await this.applyEffect(device, command.effect);
+    }
+  }
+
+  private async applyEffect(device: Sp108ePlatformAccessory, effect: string) {
+    const customEffect = Object.values(CUSTOM_EFFECTS).find(candidate =>
+      device.customEffectName(candidate).toLowerCase() === effect.toLowerCase());
+    if (customEffect !== undefined) {
+      await device.applyCustomEffect(customEffect);
+      return;
+    }
+
+    const resolved = resolveEffect(effect);
+    if (!resolved) {
+      throw new Error('Unknown effect ' + effect);
+    }
+    if (resolved.type === 'preset') {
+      await device.applyPresetEffect(resolved.effect);
+    } else {
+      await device.applyAnimationMode(resolved.effect);
+    }
+  }
+}
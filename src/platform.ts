@@ -1,7 +1,17 @@
+import * as net from 'net';
 import { API, DynamicPlatformPlugin, Logger, PlatformAccessory, PlatformConfig, Service, Characteristic } from 'homebridge';
 
 import { PLATFORM_NAME, PLUGIN_NAME } from './settings';
 import { Sp108ePlatformAccessory } from './platformAccessory';
+import { Sp108eGroupAccessory } from './groupAccessory';
+import { discover, probeHost, localSubnets, DiscoveredDevice, DEFAULT_PORT } from './lib/discovery';
+import { CHIP_TYPES } from './lib/chipTypes';
+import { COLOR_ORDERS } from './lib/colorOrders';
+import { HttpApi } from './httpApi';
+import { MqttBridge } from './mqttBridge';
+import { Scheduler } from './scheduler';
+import { migrateConfig, validateDevice, redactSecrets, DeviceConfig } from './lib/config';
+import { PollScheduler } from './lib/pollScheduler';
 
 /**
  * HomebridgePlatform
@@ -15,11 +25,30 @@ export class Sp108ePlatform implements DynamicPlatformPlugin {
   // this is used to track restored cached accessories
   public readonly accessories: PlatformAccessory[] = [];
 
+  // status polls of all controllers
+  public readonly pollScheduler = new PollScheduler();
+
+  // controllers found by the last network scan
+  private discoveredDevices: DiscoveredDevice[] = [];
+  // names reported by more than one controller, they don't identify a controller
+  private readonly ambiguousIdentities = new Set<string>();
+
+  // handlers of the registered accessories
+  private readonly handlers: Sp108ePlatformAccessory[] = [];
+  private readonly groups: Sp108eGroupAccessory[] = [];
+  // uuids of the cached accessories claimed by the current config
+  private readonly activeAccessories = new Set<string>();
+  private httpApi?: HttpApi;
+  private mqttBridge?: MqttBridge;
+  private scheduler?: Scheduler;
+
   constructor(
     public readonly log: Logger,
     public readonly config: PlatformConfig,
     public readonly api: API,
   ) {
+    // older config shapes are migrated in memory, config.json is left as it is
+    this.config = migrateConfig(config, (message) => this.log.warn('Config migration ->', message));
     this.log.debug('Finished initializing platform:', this.config.name);
 
     // When this event is fired it means Homebridge has restored all cached accessories from disk.
@@ -29,7 +58,21 @@ export class Sp108ePlatform implements DynamicPlatformPlugin {
     this.api.on('didFinishLaunching', () => {
       log.debug('Executed didFinishLaunching callback');
       // run the method to discover / register your devices as accessories
-      this.discoverDevices();
+      this.discoverDevices().then(() => {
+        this.registerGroups();
+        this.removeStaleAccessories();
+        this.startHttpApi();
+        this.startMqttBridge();
+        this.startScheduler();
+      }).catch((e) => this.log.error('Setting up the accessories failed ->', e));
+    });
+
+    this.api.on('shutdown', () => {
+      this.pollScheduler.stop();
+      this.httpApi?.stop();
+      this.mqttBridge?.stop();
+      this.scheduler?.stop();
+      this.handlers.forEach(handler => handler.stop());
     });
   }
 
@@ -45,101 +88,448 @@ export class Sp108ePlatform implements DynamicPlatformPlugin {
   }
 
   /**
-   * This is an example method showing how to register discovered accessories.
+   * Registers the devices from the config and, when enabled, the controllers found on the local network.
    * Accessories must only be registered once, previously created accessories
    * must not be registered again to prevent "duplicate UUID" errors.
    */
-  discoverDevices() {
+  async discoverDevices() {
 
     this.log.info('checking config');
-    this.log.info(JSON.stringify(this.config));
+    this.log.debug(redactSecrets(this.config));
 
-    // EXAMPLE ONLY
-    // A real plugin you would discover accessories from the local network, cloud services
-    // or a user-defined array in the platform config.
-    const devices = this.config?.devices ?? [];
+    const devices = await this.mergeDiscoveredDevices(this.config?.devices ?? []);
 
-    // loop over the discovered devices and register each one if it has not already been registered
-    for (const device of devices) {
+    const configuredAddresses = new Set<string>();
+    const validDevices: DeviceConfig[] = [];
+    for (const config of devices) {
 
-      if (!this.checkConfig(device)) {
+      const device = validateDevice(config, (message) => this.log.error(message), (message) => this.log.warn(message));
+      if (!device) {
+        // the cached accessory stays registered (see removeStaleAccessories), only the handler is missing until the fix
+        this.log.error('Device skipped until its config is fixed, its accessory is kept ->', config?.name ?? config?.host);
+        continue;
+      }
+      if (configuredAddresses.has(`${device.host}:${device.port}`)) {
+        this.log.error(`Device ${device.name}: ${device.host}:${device.port} is already used by another device entry, skipping`);
         continue;
       }
+      configuredAddresses.add(`${device.host}:${device.port}`);
+      validDevices.push(device);
+    }
 
-      // generate a unique id for the accessory this should be generated from
-      // something globally unique, but constant, for example, the device serial
-      // number or MAC address
-      const uuid = this.api.hap.uuid.generate(`${device.host}:${device.port}`);
+    // the names reported by the controllers on the configured addresses, read before any config is applied
+    const reported = await this.probeIdentities(validDevices);
 
-      // see if an accessory with the same uuid has already been registered and restored from
-      // the cached devices we stored in the `configureAccessory` method above
-      const existingAccessory = this.accessories.find(accessory => accessory.UUID === uuid);
+    // loop over the discovered devices and register each one if it has not already been registered.
+    // A device that fails to set up must not keep the others from starting.
+    for (const device of validDevices) {
+      try {
+        await this.registerDevice(device, reported);
+      } catch (e) {
+        this.log.error(`Device ${device.name} could not be set up ->`, e);
+      }
+    }
+
+    // controllers added by discovery are kept while discovery is enabled, they may just have been switched off during the scan.
+    // The handler probes the last known address and searches the network like for any offline controller.
+    if (this.config?.discovery?.enabled) {
+      for (const accessory of this.accessories) {
+        if (accessory.context.device?.discovered && !this.activeAccessories.has(accessory.UUID)) {
+          this.log.info('Restoring discovered accessory that did not answer the scan:', accessory.displayName);
+          this.activeAccessories.add(accessory.UUID);
+          try {
+            this.handlers.push(new Sp108ePlatformAccessory(this, accessory));
+          } catch (e) {
+            this.log.error(`Device ${accessory.displayName} could not be set up ->`, e);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Registers the accessory of a valid device entry, restoring the cached one of the same controller
+   * @param {Map} reported the controllers answering on the configured addresses, see probeIdentities()
+   */
+  async registerDevice(device: DeviceConfig, reported: Map<string, DiscoveredDevice>) {
+    // the name reported by the controller identifies it independently of its (DHCP assigned) address
+    const configuredAddress = `${device.host}:${device.port}`;
+    const resolved = await this.resolveIdentity(device, reported);
+    if (!resolved) {
+      return;
+    }
+    const { identity, host } = resolved;
+
+    // accessories created before identities were known keep their address based uuid
+    const legacyUuid = this.api.hap.uuid.generate(configuredAddress);
+    const uuid = identity ? this.api.hap.uuid.generate(`sp108e:${identity}`) : legacyUuid;
+
+    // see if an accessory with the same identity or uuid has already been registered and restored from
+    // the cached devices we stored in the `configureAccessory` method above
+    const existingAccessory = this.accessories.find(accessory => identity && accessory.context.identity === identity) ??
+      this.accessories.find(accessory => accessory.UUID === uuid || accessory.UUID === legacyUuid) ??
+      (identity === undefined ? this.findAccessoryByAddress(configuredAddress) ?? this.findAccessoryByName(device.name) : undefined);
+
+    if (existingAccessory && this.activeAccessories.has(existingAccessory.UUID)) {
+      this.log.error(`${device.name} is the same controller as another device entry, skipping ->`, configuredAddress);
+      return;
+    }
+
+    if (existingAccessory) {
+      // the accessory already exists
+      this.log.info('Restoring existing accessory from cache:', existingAccessory.displayName);
+      this.log.info('Context:', existingAccessory.context);
+      this.activeAccessories.add(existingAccessory.UUID);
+
+      // the config entry may have been edited, the controller may have moved to another address since the accessory was cached
+      existingAccessory.context.identity = identity ??
+        (this.ambiguousIdentities.has(existingAccessory.context.identity) ? undefined : existingAccessory.context.identity);
+      existingAccessory.context.configuredAddress = configuredAddress;
+      existingAccessory.context.device = { ...device, host };
+      if (existingAccessory.displayName !== device.name) {
+        existingAccessory.updateDisplayName(device.name);
+      }
+
+      // create the accessory handler for the restored accessory, it prunes services no longer in the config
+      // this is imported from `platformAccessory.ts`
+      this.handlers.push(new Sp108ePlatformAccessory(this, existingAccessory));
+      this.api.updatePlatformAccessories([existingAccessory]);
+    } else {
+      // the accessory does not yet exist, so we need to create it
+      this.log.info('Adding new accessory:', device.name);
+
+      // create a new accessory
+      const accessory = new this.api.platformAccessory(device.name, uuid);
+
+      // store a copy of the device object in the `accessory.context`
+      // the `context` property can be used to store any data about the accessory you may need
+      accessory.context.identity = identity;
+      accessory.context.configuredAddress = configuredAddress;
+      accessory.context.device = { ...device, host };
+      this.activeAccessories.add(accessory.UUID);
+
+      // create the accessory handler for the newly create accessory
+      // this is imported from `platformAccessory.ts`
+      this.handlers.push(new Sp108ePlatformAccessory(this, accessory));
 
+      // link the accessory to your platform
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+    }
+  }
+
+  /**
+   * Registers one virtual accessory per configured group, driving its member devices (by name) as one
+   */
+  registerGroups() {
+    const groups = Array.isArray(this.config?.groups) ? this.config.groups : [];
+    for (const group of groups) {
+      if (!(group instanceof Object) || typeof group.name !== 'string' || !Array.isArray(group.members)) {
+        this.log.error('Invalid group config, name and members are required ->', group);
+        continue;
+      }
+      const members: Sp108ePlatformAccessory[] = [];
+      for (const memberName of group.members) {
+        const member = this.handlers.find(handler => handler.name === memberName);
+        if (member) {
+          members.push(member);
+        } else {
+          this.log.warn(`Group ${group.name}: unknown member ->`, memberName);
+        }
+      }
+      if (members.length === 0) {
+        this.log.error(`Group ${group.name} has no members`);
+        continue;
+      }
+
+      const uuid = this.api.hap.uuid.generate(`sp108e-group:${group.name}`);
+      const existingAccessory = this.accessories.find(accessory => accessory.UUID === uuid);
+      this.activeAccessories.add(uuid);
       if (existingAccessory) {
-        // the accessory already exists
-        this.log.info('Restoring existing accessory from cache:', existingAccessory.displayName);
-        this.log.info('Context:', existingAccessory.context);
-
-        // create a new accessory
-        const accessory = new this.api.platformAccessory(device.name, uuid);
-        this.log.info('test:', accessory.context);
-
-        // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        // existingAccessory.context.device = device;
-        // this.api.updatePlatformAccessories([existingAccessory]);
-
-        // create the accessory handler for the restored accessory
-        // this is imported from `platformAccessory.ts`
-        new Sp108ePlatformAccessory(this, existingAccessory);
-
-        // it is possible to remove platform accessories at any time using `api.unregisterPlatformAccessories`, eg.:
-        // remove platform accessories when no longer present
-        // this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [existingAccessory]);
-        // this.log.info('Removing existing accessory from cache:', existingAccessory.displayName);
+        this.log.info('Restoring existing group from cache:', existingAccessory.displayName);
+        existingAccessory.context.group = group;
+        this.groups.push(new Sp108eGroupAccessory(this, existingAccessory, members));
+        this.api.updatePlatformAccessories([existingAccessory]);
       } else {
-        // the accessory does not yet exist, so we need to create it
-        this.log.info('Adding new accessory:', device.name);
+        this.log.info('Adding new group:', group.name);
+        const accessory = new this.api.platformAccessory(group.name, uuid);
+        accessory.context.group = group;
+        this.groups.push(new Sp108eGroupAccessory(this, accessory, members));
+        this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+      }
+    }
+  }
 
-        // create a new accessory
-        const accessory = new this.api.platformAccessory(device.name, uuid);
+  /**
+   * The cached device accessory created for the given configured address, when the controller has no unique identity
+   */
+  findAccessoryByAddress(configuredAddress: string): PlatformAccessory | undefined {
+    return this.accessories.find(accessory => !accessory.context.group && accessory.context.configuredAddress === configuredAddress &&
+      !this.activeAccessories.has(accessory.UUID));
+  }
 
-        // store a copy of the device object in the `accessory.context`
-        // the `context` property can be used to store any data about the accessory you may need
-        accessory.context.device = device;
+  /**
+   * The cached device accessory with the given name, when the controller can't be asked for its identity
+   * (offline after its host was changed in the config). Only used when the name is unambiguous.
+   */
+  findAccessoryByName(name: string): PlatformAccessory | undefined {
+    const devices = Array.isArray(this.config?.devices) ? this.config.devices : [];
+    const candidates = this.accessories.filter(accessory =>
+      !accessory.context.group && accessory.context.device?.name === name && !this.activeAccessories.has(accessory.UUID));
+    if (candidates.length !== 1 || devices.filter(device => device?.name === name).length !== 1) {
+      return undefined;
+    }
+    return candidates[0];
+  }
 
-        // create the accessory handler for the newly create accessory
-        // this is imported from `platformAccessory.ts`
-        new Sp108ePlatformAccessory(this, accessory);
+  /**
+   * Whether the device or group of a cached accessory still has an entry in the config, valid or not
+   */
+  hasConfigEntry(accessory: PlatformAccessory): boolean {
+    if (accessory.context.group) {
+      const groups = Array.isArray(this.config?.groups) ? this.config.groups : [];
+      return groups.some(group => group?.name === accessory.context.group.name);
+    }
+    const devices = Array.isArray(this.config?.devices) ? this.config.devices : [];
+    return devices.some(device => device instanceof Object && (
+      accessory.context.configuredAddress === `${device.host}:${device.port ?? DEFAULT_PORT}` ||
+      (device.name !== undefined && accessory.context.device?.name === device.name)));
+  }
 
-        // link the accessory to your platform
-        this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+  /**
+   * Unregisters the cached accessories whose device or group is no longer in the config. Accessories of entries
+   * that were only skipped this run (duplicates, invalid settings, unreachable controllers) are kept,
+   * so HomeKit doesn't lose their rooms, scenes and automations.
+   */
+  removeStaleAccessories() {
+    const inactive = this.accessories.filter(accessory => !this.activeAccessories.has(accessory.UUID));
+    const kept = inactive.filter(accessory => this.hasConfigEntry(accessory));
+    if (kept.length > 0) {
+      this.log.warn('Keeping accessories whose config entry was skipped ->', kept.map(accessory => accessory.displayName));
+    }
+    const stale = inactive.filter(accessory => !kept.includes(accessory));
+    if (stale.length === 0) {
+      return;
+    }
+
+    this.log.info('Removing accessories no longer in config ->', stale.map(accessory => accessory.displayName));
+    this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, stale);
+    for (const accessory of stale) {
+      this.accessories.splice(this.accessories.indexOf(accessory), 1);
+    }
+  }
+
+  /**
+   * Starts the REST API when enabled in the config
+   */
+  async startHttpApi() {
+    const options = this.config?.httpApi;
+    if (!options?.enabled) {
+      return;
+    }
+    this.httpApi = new HttpApi(this.log, options, () => this.handlers);
+    try {
+      await this.httpApi.start();
+    } catch (e) {
+      this.log.error('Unable to start the REST API ->', e);
+      this.httpApi = undefined;
+    }
+  }
+
+  /**
+   * Connects to the MQTT broker when enabled in the config
+   */
+  startMqttBridge() {
+    const options = this.config?.mqtt;
+    if (!options?.enabled) {
+      return;
+    }
+    if (!options.url) {
+      this.log.error('MQTT is enabled but no broker url is configured');
+      return;
+    }
+    this.mqttBridge = new MqttBridge(this.log, options, () => this.handlers);
+    this.mqttBridge.start();
+  }
+
+  /**
+   * Runs the schedules of the devices, with the platform location for sunrise / sunset triggers
+   */
+  startScheduler() {
+    const scheduler = new Scheduler(this.log, { location: this.config?.location, holidays: this.config?.holidays }, () => this.handlers);
+    if (scheduler.start()) {
+      this.scheduler = scheduler;
+    }
+  }
+
+  /**
+   * Reads the names (GET_NAME) the controllers on the configured addresses report, from the network scan or by probing them.
+   * A name reported by more than one controller doesn't identify a controller, it's left out and remembered as ambiguous.
+   * @returns the answering controllers by configured address (host:port)
+   */
+  async probeIdentities(devices: DeviceConfig[]): Promise<Map<string, DiscoveredDevice>> {
+    const reported = new Map<string, DiscoveredDevice>();
+    for (const device of devices) {
+      const discovered = this.discoveredDevices.find(found => found.host === device.host && found.port === device.port);
+      const found = discovered ?? await probeHost(device.host, device.port, this.config?.discovery?.timeout);
+      if (found?.name) {
+        reported.set(`${device.host}:${device.port}`, found);
       }
     }
+
+    const controllers = new Map<string, DiscoveredDevice>(reported);
+    this.discoveredDevices.forEach(found => found.name && controllers.set(`${found.host}:${found.port}`, found));
+    const names = [...controllers.values()].map(found => found.name);
+    this.ambiguousIdentities.clear();
+    names.filter((name, index) => name && names.indexOf(name) !== index).forEach(name => this.ambiguousIdentities.add(name!));
+    for (const name of this.ambiguousIdentities) {
+      this.log.warn(`Several controllers report the name ${name}, they are matched by address. ` +
+        'Give each controller a unique name to let it move to another address.');
+    }
+    for (const [address, found] of reported) {
+      if (this.ambiguousIdentities.has(found.name!)) {
+        reported.delete(address);
+      }
+    }
+    return reported;
   }
 
-  checkConfig(config) {
-    const requiredProperties = [
-      'name',
-      'host',
-      'port',
-      'chip',
-      'colorOrder',
-      'segments',
-      'ledsPerSegment',
-    ];
+  /**
+   * Resolves the identity and the current address of a configured controller. An entry stays with the controller it was
+   * first set up for: when another controller answers on the configured address (e.g. two controllers swapped their
+   * DHCP leases), the entry follows its own controller to its new address, so its settings are never written to another one.
+   * When the controller doesn't answer, the identity and last known address of the cached accessory are used.
+   * @param {Map} reported the controllers answering on the configured addresses, see probeIdentities()
+   * @returns undefined when the entry has to be skipped because another controller took its address
+   */
+  async resolveIdentity(
+    device: DeviceConfig,
+    reported: Map<string, DiscoveredDevice>,
+  ): Promise<{ identity?: string; host: string } | undefined> {
+    const configuredAddress = `${device.host}:${device.port}`;
+    const name = reported.get(configuredAddress)?.name;
+    const cached = this.accessories.find(accessory =>
+      !accessory.context.group && accessory.context.configuredAddress === configuredAddress);
+    const bound: string | undefined = this.ambiguousIdentities.has(cached?.context.identity) ? undefined : cached?.context.identity;
 
-    if (!(config instanceof Object)) {
-      this.log.error('Invalid config', requiredProperties);
-      return false;
+    if (bound === undefined || bound === name) {
+      return { identity: name, host: device.host };
     }
 
-    const missingProperties = requiredProperties.filter(p => !Object.keys(config).includes(p));
+    const moved = [...reported.values()].find(found => found.name === bound && found.port === device.port) ??
+      await this.findOnNetwork(bound, cached!.context.device.host, device.port);
+    if (moved) {
+      this.log.warn(`${device.name} (${bound}) is not answering on ${device.host}, found it on`, moved.host);
+      return { identity: bound, host: moved.host };
+    }
+
+    if (name === undefined) {
+      this.log.warn(`${device.name} is not answering on ${device.host}, using last known address`, cached!.context.device.host);
+      return { identity: bound, host: cached!.context.device.host };
+    }
+
+    // another configured controller took the address, the entry waits until its own controller is found again
+    if (this.accessories.some(accessory => accessory !== cached && accessory.context.identity === name)) {
+      this.log.error(`${device.name}: ${name} answers on ${device.host} instead of ${bound}, skipping until ${bound} is found`);
+      return undefined;
+    }
+
+    // the controller was renamed or replaced, the entry continues with the one on its address
+    this.log.info(`${device.name}: ${name} answers on ${device.host} instead of ${bound}, using it`);
+    return { identity: name, host: device.host };
+  }
+
+  /**
+   * Scans the network for the controller of an accessory whose address stopped answering.
+   * Updates the cached context and resolves with the new host, undefined when the controller was not found.
+   */
+  async relocateDevice(accessory: PlatformAccessory): Promise<string | undefined> {
+    const identity = accessory.context.identity;
+    if (!identity || this.ambiguousIdentities.has(identity)) {
+      return undefined;
+    }
+
+    const { host, port } = accessory.context.device;
+    const found = await this.findOnNetwork(identity, host, port);
+    if (!found || found.host === host) {
+      return undefined;
+    }
+
+    this.log.info(`${identity} moved from ${host} to`, found.host);
+    accessory.context.device = { ...accessory.context.device, host: found.host };
+    this.api.updatePlatformAccessories([accessory]);
+    return found.host;
+  }
 
-    if (missingProperties.length > 0) {
-      this.log.error('Invalid config', missingProperties);
-      return false;
+  /**
+   * Searches the discovery subnets (default: the /24 subnet of the last known address and the local subnets)
+   * for the controller reporting the given name. Controllers configured by hostname are not searched,
+   * the name resolves to the new address.
+   * @returns undefined when no or more than one controller reports the name
+   */
+  async findOnNetwork(identity: string, host: string, port: number): Promise<DiscoveredDevice | undefined> {
+    if (!net.isIPv4(host)) {
+      return undefined;
+    }
+
+    const subnets = this.config?.discovery?.subnets ?? [...new Set([host.replace(/\.\d+$/, '.0/24'), ...localSubnets()])];
+    this.log.info(`Looking for ${identity} on the network`, subnets);
+
+    let found: DiscoveredDevice[] = [];
+    try {
+      found = (await discover({ subnets, port, timeout: this.config?.discovery?.timeout })).filter(device => device.name === identity);
+    } catch (e) {
+      this.log.error('Relocation failed ->', e);
+    }
+    if (found.length > 1) {
+      this.log.warn(`Several controllers report the name ${identity}, not relocating ->`, found.map(device => device.host));
+      return undefined;
     }
+    return found[0];
+  }
+
+  /**
+   * Scans the network when discovery is enabled and merges the found controllers with the configured devices.
+   * Values taken from the live status of a controller are only defaults, config entries for the same host override them.
+   */
+  async mergeDiscoveredDevices(configDevices) {
+    const discovery = this.config?.discovery;
+    if (!discovery?.enabled) {
+      return configDevices;
+    }
+
+    this.log.info('Discovering SP108E controllers', discovery.subnets ?? 'on local subnets');
+    let discovered: DiscoveredDevice[];
+    try {
+      discovered = await discover({
+        subnets: discovery.subnets,
+        port: discovery.port ?? DEFAULT_PORT,
+        timeout: discovery.timeout,
+      });
+    } catch (e) {
+      this.log.error('Discovery failed ->', e);
+      return configDevices;
+    }
+    this.discoveredDevices = discovered;
+    this.log.info('Discovered controllers ->', discovered.map(found => `${found.name ?? 'unnamed'} (${found.host})`));
+
+    const devices = discovered.map(found => {
+      const configDevice = configDevices.find(device => device instanceof Object && device.host === found.host);
+      return {
+        // only in the network scan, not in the config
+        discovered: configDevice === undefined,
+        name: found.name ?? `SP108E ${found.host}`,
+        host: found.host,
+        port: found.port,
+        chip: CHIP_TYPES[found.status.icType],
+        colorOrder: COLOR_ORDERS[found.status.colorOrder],
+        segments: found.status.numberOfSegments,
+        ledsPerSegment: found.status.ledsPerSegment,
+        ...configDevice,
+      };
+    });
 
-    return true;
+    // configured devices that didn't answer the scan are kept as they are
+    const undiscovered = configDevices.filter(device => !discovered.some(found => device instanceof Object && device.host === found.host));
+    return [...devices, ...undiscovered];
   }
 }
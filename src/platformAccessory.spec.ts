@@ -0,0 +1,156 @@
+import * as assert from 'assert';
+import * as hap from 'hap-nodejs';
+import { PlatformAccessory } from 'homebridge/lib/platformAccessory';
+import { Sp108ePlatform } from './platform';
+import { Sp108ePlatformAccessory } from './platformAccessory';
+import { Sp108eSimulator } from './lib/sp108eSimulator';
+import { PollScheduler } from './lib/pollScheduler';
+import { CHIP_TYPES } from './lib/chipTypes';
+import { COLOR_ORDERS } from './lib/colorOrders';
+import { ANIMATION_MODE_STATIC, ANIMATION_MODE_WAVE, PRESET_EFFECT_RAINBOW } from './lib/animationModes';
+import { MAX_SERVICES } from './lib/config';
+
+const silentLog = { info: () => undefined, warn: () => undefined, error: () => undefined, debug: () => undefined };
+
+const waitFor = async (condition: () => boolean, timeoutMs = 5000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Condition not met in time');
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+};
+
+describe('accessory against the simulator', () => {
+  let simulator: Sp108eSimulator;
+  let port: number;
+  let pollScheduler: PollScheduler;
+  let platform: Sp108ePlatform;
+  let accessory: PlatformAccessory;
+  let handler: Sp108ePlatformAccessory;
+  let handlers: Sp108ePlatformAccessory[];
+
+  const createAccessory = (device: Record<string, unknown>) => {
+    const created = new PlatformAccessory(String(device.name), hap.uuid.generate(`sp108e:${device.name}`));
+    created.context.device = { host: '127.0.0.1', port, chip: 'WS2811', colorOrder: 'RGB', segments: 1, ledsPerSegment: 60, ...device };
+    handlers.push(new Sp108ePlatformAccessory(platform, created));
+    return created;
+  };
+
+  beforeEach(async () => {
+    simulator = new Sp108eSimulator({ port: 0 });
+    port = await simulator.start();
+    pollScheduler = new PollScheduler();
+
+    // the parts of the platform the accessory handler uses
+    platform = {
+      log: silentLog,
+      api: { hap, platformAccessory: PlatformAccessory, updatePlatformAccessories: () => undefined },
+      Service: hap.Service,
+      Characteristic: hap.Characteristic,
+      pollScheduler,
+      relocateDevice: async () => undefined,
+    } as unknown as Sp108ePlatform;
+
+    accessory = new PlatformAccessory('Desk', hap.uuid.generate('sp108e:SP108E_SIM'));
+    accessory.context.identity = 'SP108E_SIM';
+    accessory.context.device = {
+      name: 'Desk', host: '127.0.0.1', port, chip: 'SK6812', colorOrder: 'GRB', segments: 2, ledsPerSegment: 30,
+    };
+    handler = new Sp108ePlatformAccessory(platform, accessory);
+    handlers = [handler];
+  });
+
+  afterEach(async () => {
+    handlers.forEach(created => created.stop());
+    pollScheduler.stop();
+    await simulator.stop();
+  });
+
+  it('applies the strip settings of the config', async () => {
+    await waitFor(() => simulator.state.ledsPerSegment === 30);
+    assert.strictEqual(simulator.state.icType, CHIP_TYPES.indexOf('SK6812'));
+    assert.strictEqual(simulator.state.colorOrder, COLOR_ORDERS.indexOf('GRB'));
+    assert.strictEqual(simulator.state.segments, 2);
+  });
+
+  it('switches the strip from HomeKit and reflects the polled state', async () => {
+    await waitFor(() => handler.getState() !== undefined);
+    const on = accessory.getService('Desk Color')!.getCharacteristic(hap.Characteristic.On);
+    await on.handleSetRequest(false);
+    await waitFor(() => !simulator.state.on);
+    await on.handleSetRequest(true);
+    await waitFor(() => simulator.state.on);
+    await handler.pollStatus();
+    assert.strictEqual(handler.getState()!.on, true);
+  });
+
+  it('writes brightness, color and effects through the facade', async () => {
+    await waitFor(() => handler.getState() !== undefined);
+    await handler.applyBrightness(50);
+    await handler.applyColor('ff0000');
+    await waitFor(() => simulator.state.color === 'ff0000' && simulator.state.brightness === 128);
+    assert.strictEqual(simulator.state.mode, ANIMATION_MODE_STATIC);
+
+    await handler.applyPresetEffect(PRESET_EFFECT_RAINBOW);
+    await waitFor(() => simulator.state.mode === PRESET_EFFECT_RAINBOW);
+  });
+
+  it('switches to static for a color although the last poll missed an animation', async () => {
+    await waitFor(() => handler.getState() !== undefined);
+    // started in the vendor app after the last poll
+    simulator.state.mode = ANIMATION_MODE_WAVE;
+    await handler.applyColor('00ff00', 0);
+    await waitFor(() => simulator.state.color === '00ff00');
+    assert.strictEqual(simulator.state.mode, ANIMATION_MODE_STATIC);
+  });
+
+  it('fades off and restores the former brightness for the button of the controller', async () => {
+    await waitFor(() => handler.getState() !== undefined);
+    await handler.applyPower(false, 300);
+    await waitFor(() => !simulator.state.on);
+    await waitFor(() => simulator.state.brightness === 255);
+  });
+
+  it('keeps a running effect on adaptive lighting updates', async () => {
+    await waitFor(() => handler.getState() !== undefined);
+    await handler.applyPresetEffect(PRESET_EFFECT_RAINBOW);
+    await waitFor(() => simulator.state.mode === PRESET_EFFECT_RAINBOW);
+    await handler.pollStatus();
+    await handler.setColorTemperature(300, { controller: handler['adaptiveLightingController'] });
+    await new Promise(resolve => setTimeout(resolve, 300));
+    assert.strictEqual(simulator.state.mode, PRESET_EFFECT_RAINBOW);
+  });
+
+  it('clears the routine schedules on teardown', () => {
+    createAccessory({ name: 'Bedroom', sunrise: { time: '06:30' }, windDown: { time: '22:00' }, adaptiveLighting: false });
+    const bedroom = handlers[handlers.length - 1];
+    const routines = [...bedroom['routines'].values()];
+    assert.strictEqual(routines.length, 2);
+    assert.ok(routines.every(routine => routine.timer !== undefined));
+    bedroom.stop();
+    assert.ok(routines.every(routine => routine.timer === undefined));
+  });
+
+  it('fills the services of an accessory with preset inputs up to the HomeKit limit', () => {
+    const availableEffects = Array.from({ length: 80 }, (_, preset) => preset);
+    const created = createAccessory({ name: 'Shelf', chip: 'SK6812_RGBW', availableEffects, adaptiveLighting: false });
+    assert.strictEqual(created.services.length, MAX_SERVICES);
+  });
+
+  it('skips the scenes and routines that no longer fit in the services of an accessory', () => {
+    const scenes = Array.from({ length: 30 }, (_, i) => ({ name: `Scene ${i}`, color: 'ff0000', capture: i % 2 === 0 }));
+    const created = createAccessory({ name: 'Hall', scenes, sunrise: {}, windDown: {}, adaptiveLighting: false });
+    assert.strictEqual(created.services.length, MAX_SERVICES);
+    assert.ok(created.getService('Hall Scene Scene 0'));
+    assert.strictEqual(created.getService('Hall Sunrise'), undefined);
+  });
+
+  it('switches presets on without a default preset effect', async () => {
+    await waitFor(() => handler.getState() !== undefined);
+    const active = accessory.getService('Desk Preset Mode')!.getCharacteristic(hap.Characteristic.Active);
+    await active.handleSetRequest(hap.Characteristic.Active.ACTIVE);
+    await waitFor(() => simulator.state.mode === PRESET_EFFECT_RAINBOW);
+  });
+});
@@ -1,14 +1,50 @@
-import { Service, PlatformAccessory, CharacteristicValue } from 'homebridge';
+import { Service, PlatformAccessory, CharacteristicValue, AdaptiveLightingController } from 'homebridge';
 import colorConvert from 'color-convert';
 import { ANIMATION_MODE_STATIC, ALL_ANIMATION_MODES, PRESET_EFFECTS, PRESET_EFFECT_RAINBOW } from './lib/animationModes';
-import { ANIMATION_MODES, UNKNOWN_MODE, ANIMATION_MODE_WAVE } from './lib/animationModes';
-import sp108e, { sp108eStatus } from './lib/sp108e';
+import { ANIMATION_MODES, UNKNOWN_MODE, ANIMATION_MODE_WAVE, CUSTOM_EFFECTS, CUSTOM_EFFECT_1 } from './lib/animationModes';
+import sp108e, { sp108eStatus, HealthState, CircuitOpenError, CommandQueueStats } from './lib/sp108e';
 import { Sp108ePlatform } from './platform';
 import { MANUFACTURER, MODEL } from './settings';
+import { AccessoryServices } from './accessoryServices';
 import { CHIP_TYPES, RGBW_CHIP_TYPES } from './lib/chipTypes';
 import { COLOR_ORDERS } from './lib/colorOrders';
+import { EffectPlaylist, PlaylistEntry, parsePlaylistEntries } from './lib/playlist';
+import { MIN_MIRED, MAX_MIRED, DEFAULT_WHITE_CHANNEL_MIRED, WhitePoint, parseWhitePoints, miredToRgb, miredToRgbw, rgbToMired }
+  from './lib/colorTemperature';
+import { calculateHsv } from './lib/protocol';
+import { WriteCoalescer } from './lib/writeCoalescer';
+import { Scene, SceneConfig, parseScene, captureScene, showsColor } from './lib/scenes';
+import { FadeDurations, TransitionEngine, parseFadeDurations, interpolate, interpolateColor } from './lib/transitions';
+import { RoutineName, RoutineConfig, parseRoutine, sunriseFrame, msUntilNext } from './lib/routines';
+import { PollOutcome } from './lib/pollScheduler';
+import { redactSecrets, MAX_SERVICES } from './lib/config';
+
+const DEFAULT_POLL_INTERVAL = 1000;
+// quiet time before slider writes are sent to the controller
+const WRITE_COALESCE_MS = 150;
+// consecutive failed polls before the controller is searched for on the network
+const RELOCATE_AFTER_FAILED_POLLS = 10;
+const RELOCATE_COOLDOWN_MS = 5 * 60 * 1000;
+// scene switches turn themselves off again after this time
+const STATELESS_SWITCH_RESET_MS = 1000;
 
-const POLL_INTERVAL = 1000;
+/**
+ * State of a controller as reported to frontends other than HomeKit (REST API)
+ */
+export interface DeviceState {
+  id: string;
+  name: string;
+  host: string;
+  health: HealthState;
+  on: boolean;
+  brightness: number;
+  color: string;
+  white?: number;
+  speed: number;
+  mode: { type: 'animation' | 'preset' | 'custom' | 'unknown'; id: number; name?: string };
+  dreamModeAuto: boolean;
+  playlist: boolean;
+}
 
 /**
  * Platform Accessory
@@ -17,7 +53,6 @@ const POLL_INTERVAL = 1000;
  */
 export class Sp108ePlatformAccessory {
   public readonly platform: Sp108ePlatform;
-  public readonly isDebuggEnabled: boolean;
   private debug: boolean;
 
   private rgbOn: boolean;
@@ -31,47 +66,66 @@ export class Sp108ePlatformAccessory {
   private prService!: Service;
   private animationOn!: boolean;
 
-  private lastPull!: Date;
   private deviceStatus!: sp108eStatus;
   private targetHue!: number | undefined;
   private targetSaturation!: number | undefined;
   private presetOn!: boolean;
+  private ceService!: Service;
+  private customEffectNumber: number;
+  private customOn!: boolean;
+  private daService: Service;
+  private dreamModeAutoOn = false;
+  private plService?: Service;
+  private playlist?: EffectPlaylist;
+  private readonly whitePoints: WhitePoint[];
+  private readonly whiteChannelMired: number;
+  // color temperature last set from HomeKit and the color it was converted to
+  private colorTemperature?: { mired: number; color: string };
+  private adaptiveLightingController?: AdaptiveLightingController;
+  // slider writes (brightness, color, white, speed) answered immediately and flushed in the background
+  private readonly writes = new WriteCoalescer(WRITE_COALESCE_MS);
+  private readonly scenes = new Map<string, SceneConfig>();
+  // host-side fades, a new command of the same kind cancels a running one
+  private readonly transitions = new TransitionEngine();
+  private readonly fade: FadeDurations;
+  // brightness before a fade to off, restored when the strip is switched on again
+  private brightnessBeforeFade?: number;
+  private readonly routines = new Map<RoutineName, { config: RoutineConfig; service: Service; timer?: NodeJS.Timeout }>();
+  private activeRoutine?: RoutineName;
+  // services set up for the current config, the others of the cached accessory are pruned
+  private readonly services: AccessoryServices;
+  private readonly pollInterval: number;
+  private failedPolls = 0;
+  private lastRelocation = 0;
 
   constructor(
     platform: Sp108ePlatform,
     private readonly accessory: PlatformAccessory,
   ) {
     this.platform = platform;
+    this.services = new AccessoryServices(accessory, platform.Service.AccessoryInformation.UUID, (name) => {
+      this.platform.log.warn(`HomeKit accepts ${MAX_SERVICES} services per accessory, skipping ->`, name);
+    });
 
     this.debug = accessory.context.device.debug;
-    this.isDebuggEnabled = this.debug;
     this.debug ? this.platform.log.warn('Debug is enabled'): this.platform.log.info('Debug is disabled');
 
     this.rgbOn = false;
-    this.presetEffectNumber = accessory.context.device.defaultDreamModeNumber;
-    this.animationNumber = accessory.context.device.defaultAnimationNumber;
+    this.presetEffectNumber = accessory.context.device.defaultPresetEffect;
+    this.animationNumber = accessory.context.device.defaultAnimation;
+    this.customEffectNumber = CUSTOM_EFFECT_1;
+    this.whitePoints = parseWhitePoints(accessory.context.device.whitePoints);
+    this.whiteChannelMired = accessory.context.device.whiteChannelMired ?? DEFAULT_WHITE_CHANNEL_MIRED;
+    this.fade = parseFadeDurations(accessory.context.device.fade);
+    this.pollInterval = accessory.context.device.pollInterval ?? DEFAULT_POLL_INTERVAL;
 
     // Setting defaultAnimationNumber to STATIC (211) cause problem when switching on animations. It will switch off immediately
     if (this.animationNumber === ANIMATION_MODE_STATIC) {
       this.animationNumber = ANIMATION_MODE_WAVE;
     }
 
-    // Available presets from config (comma-separated string).
-    // Convert comma-separated string to array of numbers, ignoring spaces.
-    let AVAILABLE_EFECTS: number[] | undefined;
-    const availableEffectsConfig = this.accessory.context.device.availableEffects;
-    if (typeof availableEffectsConfig === 'string') {
-      // Parse comma-separated string: "0, 1, 2, 5, 10" -> [0, 1, 2, 5, 10]
-      AVAILABLE_EFECTS = availableEffectsConfig
-        .split(',')
-        .map(token => {
-          const num = parseInt(token.trim(), 10);
-          return isNaN(num) ? null : num;
-        })
-        .filter((num): num is number => num !== null);
-    } else if (Array.isArray(availableEffectsConfig)) {
-      AVAILABLE_EFECTS = availableEffectsConfig;
-    }
+    // Available presets from config, the platform normalizes them to an array of preset ids
+    const AVAILABLE_EFECTS: number[] | undefined = this.accessory.context.device.availableEffects;
 
     // Helper: check whether a given presetMode is allowed by AVAILABLE_EFECTS.
     // If AVAILABLE_EFECTS is not an array or is empty, treat all presets as allowed.
@@ -84,12 +138,12 @@ export class Sp108ePlatformAccessory {
     };
 
 
-    this.platform.log.info(accessory.context.device);
+    this.platform.log.debug(redactSecrets(accessory.context.device));
 
     // instantiate sp108e
-    this.device = new sp108e(accessory.context.device, this);
+    this.device = new sp108e({ ...accessory.context.device, logger: this.platform.log });
 
-    const serialNumberBase = `${accessory.context.device.host}:${accessory.context.device.port}`;
+    const serialNumberBase = accessory.context.identity ?? `${accessory.context.device.host}:${accessory.context.device.port}`;
 
     // set accessory information
     this.accessory.getService(this.platform.Service.AccessoryInformation)!
@@ -103,8 +157,7 @@ export class Sp108ePlatformAccessory {
 
     // rgb led
     const rgbServiceName = accessory.context.device.name + ' Color';
-    this.rgbService = this.accessory.getService(rgbServiceName) ||
-      this.accessory.addService(this.platform.Service.Lightbulb, rgbServiceName, `${serialNumberBase}/rgb`);
+    this.rgbService = this.services.obtain(this.platform.Service.Lightbulb, rgbServiceName, `${serialNumberBase}/rgb`);
 
     this.rgbService.getCharacteristic(this.platform.Characteristic.On)
       .onSet(this.setOn.bind(this));
@@ -121,11 +174,23 @@ export class Sp108ePlatformAccessory {
       .getCharacteristic(this.platform.Characteristic.Saturation)
       .onSet(this.setSaturation.bind(this));
 
+    this.rgbService
+      .getCharacteristic(this.platform.Characteristic.ColorTemperature)
+      .setProps({ minValue: MIN_MIRED, maxValue: MAX_MIRED })
+      .onSet(this.setColorTemperature.bind(this));
+
+    // HomeKit adaptive lighting, the controller writes ColorTemperature along the transition curve
+    if (accessory.context.device.adaptiveLighting !== false) {
+      this.adaptiveLightingController = new this.platform.api.hap.AdaptiveLightingController(this.rgbService, {
+        controllerMode: this.platform.api.hap.AdaptiveLightingControllerMode.AUTOMATIC,
+      });
+      this.accessory.configureController(this.adaptiveLightingController);
+    }
+
     // white led
     if (RGBW_CHIP_TYPES.includes(accessory.context.device?.chip)) {
       const wServiceName = accessory.context.device.name + ' White';
-      this.wService = this.accessory.getService(wServiceName) ||
-        this.accessory.addService(this.platform.Service.Lightbulb, wServiceName, `${serialNumberBase}/w`);
+      this.wService = this.services.obtain(this.platform.Service.Lightbulb, wServiceName, `${serialNumberBase}/w`);
 
       this.wService.getCharacteristic(this.platform.Characteristic.Brightness)
         .onSet(this.setWhiteBrightness.bind(this));
@@ -133,8 +198,7 @@ export class Sp108ePlatformAccessory {
 
     // animation speed
     const asServicename = accessory.context.device.name + ' Animation Speed';
-    this.asService = this.accessory.getService(asServicename) ||
-      this.accessory.addService(this.platform.Service.Fanv2, asServicename, `${serialNumberBase}/as`);
+    this.asService = this.services.obtain(this.platform.Service.Fanv2, asServicename, `${serialNumberBase}/as`);
 
     this.asService
       .setCharacteristic(this.platform.Characteristic.ConfiguredName, asServicename)
@@ -150,6 +214,13 @@ export class Sp108ePlatformAccessory {
       .getCharacteristic(this.platform.Characteristic.RotationSpeed)
       .onSet(this.setAnimationSpeed.bind(this));
 
+    // connection health, StatusFault isn't a standard characteristic of lightbulbs and fans
+    for (const service of [this.rgbService, this.wService, this.asService].filter(Boolean)) {
+      service.addOptionalCharacteristic(this.platform.Characteristic.StatusFault);
+      service.updateCharacteristic(this.platform.Characteristic.StatusFault, this.platform.Characteristic.StatusFault.NO_FAULT);
+    }
+    this.device.events.on('health', this.onHealthChange.bind(this));
+
 
     // Remove old input services that might have wrong subtypes
     const existingInputs = this.accessory.services.filter(
@@ -161,8 +232,7 @@ export class Sp108ePlatformAccessory {
 
     // adnimation mode
     const mdServiceName = accessory.context.device.name + ' Animation Mode';
-    this.mdService = this.accessory.getService(mdServiceName) ||
-      this.accessory.addService(this.platform.Service.Television, mdServiceName, `${serialNumberBase}/md`);
+    this.mdService = this.services.obtain(this.platform.Service.Television, mdServiceName, `${serialNumberBase}/md`);
 
     // Configure TV service
     this.mdService
@@ -189,8 +259,7 @@ export class Sp108ePlatformAccessory {
       const mdInputServiceName = `${animationModeName} MD`;
       const mdInputServiceSubtype = `${serialNumberBase}/md/${animationMode}`;
 
-      const animationModeInputSource = this.accessory.getService(mdInputServiceName) ||
-        this.accessory.addService(this.platform.Service.InputSource, mdInputServiceName, mdInputServiceSubtype);
+      const animationModeInputSource = this.services.obtain(this.platform.Service.InputSource, mdInputServiceName, mdInputServiceSubtype);
 
       animationModeInputSource
         .setCharacteristic(this.platform.api.hap.Characteristic.Identifier, parseInt(animationMode))
@@ -203,8 +272,7 @@ export class Sp108ePlatformAccessory {
 
     // Duplicate mdService as prService (preset modes) with separate InputSource instances
     const prServiceName = accessory.context.device.name + ' Preset Mode';
-    this.prService = this.accessory.getService(prServiceName) ||
-      this.accessory.addService(this.platform.Service.Television, prServiceName, `${serialNumberBase}/pr`);
+    this.prService = this.services.obtain(this.platform.Service.Television, prServiceName, `${serialNumberBase}/pr`);
 
     // Configure TV service
     this.prService
@@ -222,7 +290,57 @@ export class Sp108ePlatformAccessory {
     this.prService.setCharacteristic(this.platform.api.hap.Characteristic.Name, 'Preset Mode');
 
 
-    // Create separate InputSource services for prService using PRESET_EFFECTS
+    // dream mode auto-cycle of the controller
+    const daServiceName = accessory.context.device.name + ' Dream Mode Auto';
+    this.daService = this.services.obtain(this.platform.Service.Switch, daServiceName, `${serialNumberBase}/da`);
+
+    this.daService.getCharacteristic(this.platform.Characteristic.On)
+      .onSet(this.setDreamModeAuto.bind(this));
+
+    // custom effects recorded with the vendor app, slot names can be configured
+    const ceServiceName = accessory.context.device.name + ' Custom Effect';
+    this.ceService = this.services.obtain(this.platform.Service.Television, ceServiceName, `${serialNumberBase}/ce`);
+
+    // Configure TV service
+    this.ceService
+      .setCharacteristic(this.platform.Characteristic.ConfiguredName, ceServiceName)
+      .setCharacteristic(this.platform.Characteristic.SleepDiscoveryMode,
+        this.platform.Characteristic.SleepDiscoveryMode.ALWAYS_DISCOVERABLE);
+
+    this.ceService
+      .getCharacteristic(this.platform.Characteristic.Active)
+      .onSet(this.setCustomEffectOn.bind(this));
+
+    this.ceService
+      .getCharacteristic(this.platform.Characteristic.ActiveIdentifier)
+      .onSet(this.setCustomEffect.bind(this));
+
+    const customEffectNames: string[] = Array.isArray(accessory.context.device.customEffectNames)
+      ? accessory.context.device.customEffectNames
+      : [];
+    for (const [defaultName, customEffect] of Object.entries(CUSTOM_EFFECTS)) {
+      const customEffectName = customEffectNames[customEffect - 1]?.trim() || defaultName;
+
+      const ceInputServiceName = `${defaultName} CE`;
+      const ceInputServiceSubtype = `${serialNumberBase}/ce/${customEffect}`;
+
+      const customEffectInputSource =
+        this.services.obtainOptional(this.platform.Service.InputSource, ceInputServiceName, ceInputServiceSubtype);
+      if (!customEffectInputSource) {
+        break;
+      }
+
+      customEffectInputSource
+        .setCharacteristic(this.platform.api.hap.Characteristic.Identifier, customEffect)
+        .setCharacteristic(this.platform.api.hap.Characteristic.ConfiguredName, customEffectName)
+        .setCharacteristic(this.platform.api.hap.Characteristic.IsConfigured, this.platform.api.hap.Characteristic.IsConfigured.CONFIGURED)
+        .setCharacteristic(this.platform.api.hap.Characteristic.InputSourceType, this.platform.api.hap.Characteristic.InputSourceType.HDMI);
+
+      this.ceService.addLinkedService(customEffectInputSource);
+    }
+
+    // Create separate InputSource services for prService using PRESET_EFFECTS, after the required services
+    // as they get the services that remain
     const presetModes = Object.entries({ ...PRESET_EFFECTS });
     let createdPresetCount = 0;
     for (const [presetMode, presetModeName] of presetModes) {
@@ -240,8 +358,11 @@ export class Sp108ePlatformAccessory {
         continue;
       }
 
-      const presetModeInputSource = this.accessory.getService(prInputServiceName) ||
-        this.accessory.addService(this.platform.Service.InputSource, prInputServiceName, prInputServiceSubtype);
+      const presetModeInputSource =
+        this.services.obtainOptional(this.platform.Service.InputSource, prInputServiceName, prInputServiceSubtype);
+      if (!presetModeInputSource) {
+        break;
+      }
 
       presetModeInputSource
         .setCharacteristic(this.platform.api.hap.Characteristic.Identifier, parseInt(presetMode))
@@ -253,13 +374,95 @@ export class Sp108ePlatformAccessory {
       createdPresetCount++;
     }
 
-    this.initialize(accessory.context.device);
+    // host-side playlist, only when entries are configured
+    const playlistEntries = parsePlaylistEntries(accessory.context.device.playlist, (entry) => {
+      this.platform.log.warn('Playlist entry not found in PRESET_EFFECTS / ANIMATION_MODES ->', entry);
+    });
+    const plServiceName = accessory.context.device.name + ' Playlist';
+    this.plService = playlistEntries.length > 0 ?
+      this.services.obtainOptional(this.platform.Service.Switch, plServiceName, `${serialNumberBase}/pl`) : undefined;
+    if (this.plService) {
+      this.playlist = new EffectPlaylist(
+        { entries: playlistEntries, shuffle: accessory.context.device.playlist.shuffle },
+        this.applyPlaylistEntry.bind(this),
+        (e) => this.platform.log.error('Playlist error ->', e),
+      );
+
+      this.plService.getCharacteristic(this.platform.Characteristic.On)
+        .onSet(this.setPlaylistOn.bind(this));
+    }
+
+    // scenes, each a stateless switch. Captured scenes get a second switch that saves the current state.
+    for (const config of Array.isArray(accessory.context.device.scenes) ? accessory.context.device.scenes : []) {
+      const sceneConfig = parseScene(config, (message) => this.platform.log.warn(message));
+      if (!sceneConfig || this.scenes.has(sceneConfig.name)) {
+        continue;
+      }
+
+      const scServiceName = `${accessory.context.device.name} Scene ${sceneConfig.name}`;
+      const scService =
+        this.services.obtainOptional(this.platform.Service.Switch, scServiceName, `${serialNumberBase}/sc/${sceneConfig.name}`);
+      if (!scService) {
+        continue;
+      }
+      this.scenes.set(sceneConfig.name, sceneConfig);
+      scService.getCharacteristic(this.platform.Characteristic.On)
+        .onSet((value) => this.setSceneOn(scService, sceneConfig.name, value));
+
+      if (sceneConfig.capture) {
+        const ssServiceName = `${accessory.context.device.name} Save Scene ${sceneConfig.name}`;
+        const ssService =
+          this.services.obtainOptional(this.platform.Service.Switch, ssServiceName, `${serialNumberBase}/ss/${sceneConfig.name}`);
+        if (ssService) {
+          ssService.getCharacteristic(this.platform.Characteristic.On)
+            .onSet((value) => this.setSaveSceneOn(ssService, sceneConfig.name, value));
+        }
+      }
+    }
+
+    // sunrise and wind-down routines, each a switch, optionally started at a configured time
+    const routineTitles: [RoutineName, string, string][] = [['sunrise', 'Sunrise', 'sr'], ['windDown', 'Wind Down', 'wd']];
+    for (const [routine, title, subtype] of routineTitles) {
+      const config = parseRoutine(accessory.context.device[routine], (message) => this.platform.log.warn(`${title} ->`, message));
+      if (!config) {
+        continue;
+      }
+      const rtServiceName = `${accessory.context.device.name} ${title}`;
+      const rtService = this.services.obtainOptional(this.platform.Service.Switch, rtServiceName, `${serialNumberBase}/${subtype}`);
+      if (!rtService) {
+        continue;
+      }
+      rtService.getCharacteristic(this.platform.Characteristic.On)
+        .onSet((value) => this.setRoutineOn(routine, value));
+
+      this.routines.set(routine, { config, service: rtService });
+      this.scheduleRoutine(routine);
+    }
+
+    this.pruneServices();
+    this.initialize(accessory.context.device).catch((e) => this.platform.log.error('Initialization failed ->', e));
     this.sync();
   }
 
+  /**
+   * Removes the services and inputs of features no longer in the config (e.g. the white light after the chip type
+   * changed to RGB, presets removed from availableEffects, removed scenes) and the snapshots of removed scenes
+   */
+  pruneServices() {
+    for (const service of this.services.prune()) {
+      this.debug && this.platform.log.info('Removed service no longer in config ->', service.displayName);
+    }
+    for (const name of Object.keys(this.accessory.context.scenes ?? {})) {
+      if (!this.scenes.get(name)?.capture) {
+        delete this.accessory.context.scenes[name];
+      }
+    }
+  }
+
   async initialize({ chip, colorOrder, segments, ledsPerSegment }) {
     this.animationOn = false;
     this.presetOn = false;
+    this.customOn = false;
 
     await this.pollStatus();
     if (typeof this.deviceStatus === 'undefined') {
@@ -290,16 +493,23 @@ export class Sp108ePlatformAccessory {
     }
   }
 
+  /**
+   * Hands the status polls to the poll scheduler of the platform, every completed write is confirmed with a poll
+   */
   sync() {
-    setInterval(async () => {
-      await this.pollStatus();
-    }, POLL_INTERVAL);
+    this.platform.pollScheduler.add(this.accessory.UUID, {
+      interval: this.pollInterval,
+      poll: () => this.pollStatus(),
+      busy: () => this.device.pendingWrites > 0,
+    });
+    this.device.events.on('write', () => this.platform.pollScheduler.pollSoon(this.accessory.UUID));
   }
 
-  async pollStatus() {
+  async pollStatus(): Promise<PollOutcome> {
     try {
+      const previousStatus = this.deviceStatus;
       this.deviceStatus = await this.device.getStatus();
-      this.lastPull = new Date();
+      this.failedPolls = 0;
 
       this.rgbOn = this.deviceStatus.on;
 
@@ -337,51 +547,63 @@ export class Sp108ePlatformAccessory {
         this.debug && this.platform.log.info('State of presetEffectMode is unknown or device off ->', this.deviceStatus.on);
       }
 
+      const customEffectOn = this.deviceStatus.customEffectMode !== UNKNOWN_MODE && this.deviceStatus.on ?
+        this.platform.api.hap.Characteristic.Active.ACTIVE :
+        this.platform.api.hap.Characteristic.Active.INACTIVE;
+
+      if (this.deviceStatus.customEffectMode !== UNKNOWN_MODE && this.deviceStatus.on) {
+        this.customEffectNumber = this.deviceStatus.customEffectMode;
+        this.debug && this.platform.log.info('Value of customEffectMode ->', this.customEffectNumber);
+      }
+
       // rgbService
       this.rgbService.updateCharacteristic(this.platform.Characteristic.On, this.rgbOn);
       this.debug && this.platform.log.info('Update Characteristic On ->', this.rgbOn);
 
-      if (this.rgbOn) {
-        // Fix: Homebridge expects a valid finite number for Brightness, fallback to 0 if NaN
-        let safeBrightness = this.deviceStatus.brightnessPercentage;
-        if (typeof safeBrightness !== 'number' || !isFinite(safeBrightness) || isNaN(safeBrightness)) {
-          safeBrightness = 0;
-        }
-        this.rgbService.updateCharacteristic(this.platform.Characteristic.Brightness, safeBrightness);
-        this.debug && this.platform.log.info('Update Characteristic Brightness ->', safeBrightness);
+      // characteristics with pending writes keep the value set in HomeKit until the write has been sent
+      if (this.writes.isPending('brightness') || this.transitions.isRunning('brightness')) {
+        this.debug && this.platform.log.info('Brightness write pending, skipping update');
+      } else if (this.rgbOn) {
+        this.rgbService.updateCharacteristic(this.platform.Characteristic.Brightness, this.deviceStatus.brightnessPercentage);
+        this.debug && this.platform.log.info('Update Characteristic Brightness ->', this.deviceStatus.brightnessPercentage);
       } else {
         this.rgbService.updateCharacteristic(this.platform.Characteristic.Brightness, 0);
         this.debug && this.platform.log.info('Update Characteristic Brightness ->', 0);
       }
 
-      this.rgbService.updateCharacteristic(this.platform.Characteristic.Hue, this.deviceStatus.hsv.hue);
-      this.debug && this.platform.log.info('Update Characteristic Hue ->', this.deviceStatus.hsv.hue);
+      if (!this.writes.isPending('color')) {
+        this.rgbService.updateCharacteristic(this.platform.Characteristic.Hue, this.deviceStatus.hsv.hue);
+        this.debug && this.platform.log.info('Update Characteristic Hue ->', this.deviceStatus.hsv.hue);
 
-      this.rgbService.updateCharacteristic(this.platform.Characteristic.Saturation, this.deviceStatus.hsv.saturation);
-      this.debug && this.platform.log.info('Update Characteristic Saturation ->', this.deviceStatus.hsv.saturation);
+        this.rgbService.updateCharacteristic(this.platform.Characteristic.Saturation, this.deviceStatus.hsv.saturation);
+        this.debug && this.platform.log.info('Update Characteristic Saturation ->', this.deviceStatus.hsv.saturation);
 
-      // wService
-      if (this.wService) {
-        // Fix: Homebridge expects a valid finite number for Brightness, fallback to 0 if NaN
-        let safeWhiteBrightness = this.deviceStatus.whiteBrightnessPercentage;
-        if (typeof safeWhiteBrightness !== 'number' || !isFinite(safeWhiteBrightness) || isNaN(safeWhiteBrightness)) {
-          safeWhiteBrightness = 0;
+        // keep the temperature set from HomeKit while the color is unchanged, otherwise look up the matching white point
+        if (this.colorTemperature?.color !== this.deviceStatus.color) {
+          const mired = rgbToMired(this.deviceStatus.color, this.whitePoints);
+          this.colorTemperature = mired === undefined ? undefined : { mired, color: this.deviceStatus.color };
+        }
+        if (this.colorTemperature) {
+          this.rgbService.updateCharacteristic(this.platform.Characteristic.ColorTemperature, this.colorTemperature.mired);
+          this.debug && this.platform.log.info('Update Characteristic ColorTemperature ->', this.colorTemperature.mired);
         }
-        this.wService.updateCharacteristic(this.platform.Characteristic.Brightness, safeWhiteBrightness);
-        this.debug && this.platform.log.info('Update Characteristic Brightness of w ->', safeWhiteBrightness);
+      }
+
+      // wService
+      if (this.wService && !this.writes.isPending('white')) {
+        this.wService.updateCharacteristic(this.platform.Characteristic.Brightness, this.deviceStatus.whiteBrightnessPercentage);
+        this.debug && this.platform.log.info('Update Characteristic Brightness of w ->', this.deviceStatus.whiteBrightnessPercentage);
       }
 
       // asService
-      this.asService.updateCharacteristic(this.platform.Characteristic.Active, animationModeOn);
-      this.debug && this.platform.log.info('Update Characteristic Active of as ->', animationModeOn);
+      const anyEffectOn = animationModeOn === this.platform.api.hap.Characteristic.Active.ACTIVE ? animationModeOn : customEffectOn;
+      this.asService.updateCharacteristic(this.platform.Characteristic.Active, anyEffectOn);
+      this.debug && this.platform.log.info('Update Characteristic Active of as ->', anyEffectOn);
 
-      // Fix: Homebridge expects a valid finite number for RotationSpeed, fallback to 0 if NaN
-      let safeRotationSpeed = this.deviceStatus.animationSpeedPercentage;
-      if (typeof safeRotationSpeed !== 'number' || !isFinite(safeRotationSpeed) || isNaN(safeRotationSpeed)) {
-        safeRotationSpeed = 0;
+      if (!this.writes.isPending('speed')) {
+        this.asService.updateCharacteristic(this.platform.Characteristic.RotationSpeed, this.deviceStatus.animationSpeedPercentage);
+        this.debug && this.platform.log.info('Update Characteristic RotationSpeed of as ->', this.deviceStatus.animationSpeedPercentage);
       }
-      this.asService.updateCharacteristic(this.platform.Characteristic.RotationSpeed, safeRotationSpeed);
-      this.debug && this.platform.log.info('Update Characteristic RotationSpeed of as ->', safeRotationSpeed);
 
       // mdService
       this.mdService.updateCharacteristic(this.platform.Characteristic.Active, animationModeOn);
@@ -410,49 +632,137 @@ export class Sp108ePlatformAccessory {
           this.debug && this.platform.log.info('Update Characteristic ActiveIdentifier of pr ->', safeIdentifier);
         }
       }
+
+      // daService / plService
+      this.daService.updateCharacteristic(this.platform.Characteristic.On, this.dreamModeAutoOn && this.deviceStatus.on);
+      this.plService?.updateCharacteristic(this.platform.Characteristic.On, Boolean(this.playlist?.running));
+
+      // ceService
+      this.ceService.updateCharacteristic(this.platform.Characteristic.Active, customEffectOn);
+      this.debug && this.platform.log.info('Update Characteristic Active of ce ->', customEffectOn);
+      this.ceService.updateCharacteristic(this.platform.Characteristic.ActiveIdentifier, this.customEffectNumber);
+      this.debug && this.platform.log.info('Update Characteristic ActiveIdentifier of ce ->', this.customEffectNumber);
+
+      return previousStatus?.rawResponse === this.deviceStatus.rawResponse ? 'unchanged' : 'changed';
     } catch (e) {
-      this.platform.log.error('Pull error ->', e);
+      // state changes are logged by onHealthChange, don't repeat the error every second while offline
+      if (e instanceof CircuitOpenError || this.device.health.state === 'offline') {
+        this.debug && this.platform.log.info('Pull skipped ->', (e as Error).message);
+      } else {
+        this.platform.log.error('Pull error ->', e);
+      }
+      this.failedPolls++;
+      if (this.failedPolls >= RELOCATE_AFTER_FAILED_POLLS) {
+        await this.relocate();
+      }
+      return 'failed';
+    }
+  }
+
+  onHealthChange(state: HealthState, previous: HealthState, lastError?: unknown) {
+    if (state === 'offline') {
+      const reason = lastError instanceof Error ? lastError.message : lastError;
+      this.platform.log.warn('Device is offline, probing at growing intervals ->', reason);
+      this.showNoResponse();
+    } else if (state === 'online' && previous === 'offline') {
+      this.platform.log.info('Device is back online');
+    } else {
+      this.debug && this.platform.log.info('Connection state ->', state);
+    }
+
+    const statusFault = state === 'offline' ?
+      this.platform.Characteristic.StatusFault.GENERAL_FAULT :
+      this.platform.Characteristic.StatusFault.NO_FAULT;
+    for (const service of [this.rgbService, this.wService, this.asService].filter(Boolean)) {
+      service.updateCharacteristic(this.platform.Characteristic.StatusFault, statusFault);
     }
   }
 
-  isOutOfSync() {
-    return this.deviceStatus === undefined ||
-      this.lastPull === undefined ||
-      (new Date().getUTCMilliseconds()) - this.lastPull.getUTCMilliseconds() > POLL_INTERVAL;
+  /**
+   * Lets HomeKit show "No Response" instead of the last polled values, the next successful poll replaces the errors
+   */
+  showNoResponse() {
+    const noResponse = new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    this.rgbService.updateCharacteristic(this.platform.Characteristic.On, noResponse);
+    this.rgbService.updateCharacteristic(this.platform.Characteristic.Brightness, noResponse);
+    this.wService?.updateCharacteristic(this.platform.Characteristic.Brightness, noResponse);
+    this.asService.updateCharacteristic(this.platform.Characteristic.Active, noResponse);
+    for (const service of [this.mdService, this.prService, this.ceService]) {
+      service.updateCharacteristic(this.platform.Characteristic.Active, noResponse);
+    }
+    this.daService.updateCharacteristic(this.platform.Characteristic.On, noResponse);
+    this.plService?.updateCharacteristic(this.platform.Characteristic.On, noResponse);
+  }
+
+  /**
+   * Looks for the controller on the network when it stopped answering on its last known address
+   */
+  async relocate() {
+    if (Date.now() - this.lastRelocation < RELOCATE_COOLDOWN_MS) {
+      return;
+    }
+    this.lastRelocation = Date.now();
+
+    const host = await this.platform.relocateDevice(this.accessory);
+    if (host) {
+      this.device.setAddress(host);
+      this.failedPolls = 0;
+    }
   }
 
   async setOn(value: CharacteristicValue) {
-    try {
-      // Sync device status
-      await this.device.getStatus();
+    await this.switchPower(Boolean(value), value ? this.fade.on : this.fade.off);
+  }
 
-      if (Boolean(value) === true) {
-        this.platform.log.info('Settings device ON');
-        // Set device on
-        await this.device.on();
+  /**
+   * Switches the strip, fading the brightness in or out over transitionMs
+   */
+  async switchPower(on: boolean, transitionMs: number) {
+    this.stopRoutine();
+    this.transitions.cancel();
+    try {
+      this.platform.log.info(on ? 'Settings device ON' : 'Settings device OFF');
+      if (transitionMs > 0) {
+        await this.fadeBrightness(on ? undefined : 0, transitionMs);
+        this.deviceStatus = await this.device.getStatus();
       } else {
-        this.platform.log.info('Settings device OFF');
-        // Set device off
-        await this.device.off();
+        // read, toggle and verify in one transaction, fails only when the device didn't reach the state
+        this.deviceStatus = await this.device.setPower(on);
       }
       // Sync local rgb status
-      this.rgbOn = Boolean(value);
+      this.rgbOn = this.deviceStatus.on;
       if (!this.rgbOn) {
         this.animationOn = false;
         this.presetOn = false;
+        this.customOn = false;
+        this.stopEffectCycling();
       }
     } catch (e) {
+      this.platform.log.error('Unable to switch the device ->', e);
       throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
     }
   }
 
+  /**
+   * Answers HomeKit immediately and sends only the last of rapid writes (slider drags) to the device.
+   * The value stays as set in HomeKit until the write has been sent, the next poll reconciles it with the device.
+   * @param {boolean} manual false for automatic writes (adaptive lighting), they don't end a running routine
+   */
+  scheduleWrite(key: string, write: () => Promise<unknown>, manual = true) {
+    if (manual) {
+      this.stopRoutine();
+    }
+    this.transitions.cancel(key);
+    this.writes.schedule(key, write).catch((e) => this.platform.log.error(`Write error (${key}) ->`, e));
+  }
+
   async setBrightness(value: CharacteristicValue) {
-    try {
+    this.brightnessBeforeFade = undefined;
+    this.scheduleWrite('brightness', async () => {
       if (!this.deviceStatus.on) {
         await this.device.on();
       }
 
-
       // From a generic value (CharacteristicValue) to integer with validation:
       const n = Number(value);
       let i = 0;
@@ -469,57 +779,133 @@ export class Sp108ePlatformAccessory {
       }
 
       this.platform.log.info('Set Characteristic Brightness truncated to ->', i);
-    } catch (e) {
-      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
-    }
+    });
   }
 
   async setColor() {
-    const colorHex = colorConvert.hsv.hex([this.targetHue as number, this.targetSaturation as number, this.deviceStatus.hsv.value]);
-    this.debug && this.platform.log.info('Converted color from HSV to HEX ->', { h: this.targetHue, s: this.targetSaturation }, colorHex);
-    await this.device.setColor(colorHex);
+    // hue and saturation arrive as separate writes, the one not (yet) set is taken from the device
+    const hue = this.targetHue ?? this.deviceStatus.hsv.hue;
+    const saturation = this.targetSaturation ?? this.deviceStatus.hsv.saturation;
+    const colorHex = colorConvert.hsv.hex([hue, saturation, this.deviceStatus.hsv.value]);
+    this.debug && this.platform.log.info('Converted color from HSV to HEX ->', { h: hue, s: saturation }, colorHex);
     this.targetHue = undefined;
     this.targetSaturation = undefined;
+    await this.writeColor(colorHex);
   }
 
-  async setHue(value: CharacteristicValue) {
-    try {
-      this.debug && this.platform.log.info('Set Characteristic Hue ->', value);
-      this.targetHue = value as number;
+  /**
+   * Sets the color, fading from the current color over transitionMs while the strip is on
+   * @returns false when the fade was cancelled
+   */
+  async writeColor(hexColor: string, transitionMs = this.fade.color): Promise<boolean> {
+    // the polled status may be several intervals old, the mode may have changed since (e.g. in the vendor app)
+    let status = await this.device.getStatus();
+    const from = status.color;
+    if (transitionMs <= 0 || !status.on || from === hexColor) {
+      await this.device.setColor(hexColor, status);
+      return true;
+    }
+    return this.transitions.run('color', transitionMs, async (t) => {
+      await this.device.setColor(interpolateColor(from, hexColor, t), status);
+      // the first step switched to static, the polled status isn't refreshed during the fade
+      status = { ...status, animationMode: ANIMATION_MODE_STATIC };
+    });
+  }
 
-      if (this.targetSaturation === undefined) {
-        return;
+  /**
+   * Fades the brightness to target (percentage), switching the strip on first or off at the end (target 0).
+   * Without target the brightness from before the last fade to off is restored.
+   * @returns false when the fade was cancelled
+   */
+  async fadeBrightness(target: number | undefined, transitionMs: number, key = 'brightness'): Promise<boolean> {
+    const status = await this.device.getStatus();
+    if (target === 0) {
+      if (!status.on) {
+        return true;
+      }
+      const from = status.brightnessPercentage;
+      const restore = this.brightnessBeforeFade ?? from;
+      this.brightnessBeforeFade = restore;
+      const step = (t: number) => this.device.setBrightnessPercentage(interpolate(from, 0, t));
+      if (!await this.transitions.run(key, transitionMs, step)) {
+        return false;
       }
+      await this.device.setPower(false);
+      // switched on with the button of the controller, the strip comes back at the former brightness,
+      // unless a brightness write during the fade set another one
+      if (this.brightnessBeforeFade !== undefined) {
+        await this.device.setBrightnessPercentage(restore);
+      }
+      this.brightnessBeforeFade = undefined;
+      return true;
+    }
 
-      await this.setColor();
-    } catch (e) {
-      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    const to = target ?? this.brightnessBeforeFade ?? status.brightnessPercentage;
+    this.brightnessBeforeFade = undefined;
+    let from = status.brightnessPercentage;
+    if (!status.on) {
+      from = 0;
+      await this.device.setBrightnessPercentage(0);
+      await this.device.setPower(true);
+    }
+    if (from === to) {
+      return true;
     }
+    return this.transitions.run(key, transitionMs, (t) => this.device.setBrightnessPercentage(interpolate(from, to, t)));
   }
 
-  async setSaturation(value: CharacteristicValue) {
-    try {
-      this.debug && this.platform.log.info('Set Characteristic Saturation ->', value);
-      this.targetSaturation = value as number;
+  async setColorTemperature(value: CharacteristicValue, context?) {
+    // adaptive lighting writes the temperature periodically, only manual changes end effects and routines.
+    // Its updates are skipped while they would end one, it catches up with the next update after it.
+    const manual = !this.isAdaptiveLightingWrite(context);
+    if (manual) {
+      this.stopEffectCycling();
+    } else if (this.activeRoutine !== undefined || this.isEffectRunning()) {
+      this.debug && this.platform.log.info('Adaptive lighting update skipped while an effect or routine runs ->', value);
+      return;
+    }
+    const mired = value as number;
+
+    let color: string;
+    if (this.wService) {
+      const rgbw = miredToRgbw(mired, this.whitePoints, this.whiteChannelMired);
+      this.wService.updateCharacteristic(this.platform.Characteristic.Brightness, rgbw.white);
+      this.scheduleWrite('white', () => this.device.setWhiteBrightnessPercentage(rgbw.white), manual);
+      color = rgbw.color;
+    } else {
+      color = miredToRgb(mired, this.whitePoints);
+    }
+    this.debug && this.platform.log.info('Converted color temperature to HEX ->', mired, color);
+    this.colorTemperature = { mired, color };
 
-      if (this.targetHue === undefined) {
-        return;
-      }
+    // keep Hue/Saturation consistent with the temperature
+    const hsv = calculateHsv(color);
+    this.rgbService.updateCharacteristic(this.platform.Characteristic.Hue, hsv.hue);
+    this.rgbService.updateCharacteristic(this.platform.Characteristic.Saturation, hsv.saturation);
 
-      await this.setColor();
-    } catch (e) {
-      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
-    }
+    // a temperature replaces a pending hue/saturation change and vice versa
+    this.targetHue = undefined;
+    this.targetSaturation = undefined;
+    this.scheduleWrite('color', () => this.writeColor(color), manual);
   }
 
-  async setWhiteBrightness(value: CharacteristicValue) {
-    try {
-      await this.device.setWhiteBrightnessPercentage(value as number);
+  async setHue(value: CharacteristicValue) {
+    this.manualOverride();
+    this.debug && this.platform.log.info('Set Characteristic Hue ->', value);
+    this.targetHue = value as number;
+    this.scheduleWrite('color', () => this.setColor());
+  }
 
-      this.debug && this.platform.log.info('Set Characteristic Brightness of w ->', value);
-    } catch (e) {
-      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
-    }
+  async setSaturation(value: CharacteristicValue) {
+    this.manualOverride();
+    this.debug && this.platform.log.info('Set Characteristic Saturation ->', value);
+    this.targetSaturation = value as number;
+    this.scheduleWrite('color', () => this.setColor());
+  }
+
+  async setWhiteBrightness(value: CharacteristicValue) {
+    this.debug && this.platform.log.info('Set Characteristic Brightness of w ->', value);
+    this.scheduleWrite('white', () => this.device.setWhiteBrightnessPercentage(value as number));
   }
 
   async setAnimationSpeedOn(value: CharacteristicValue) {
@@ -528,6 +914,8 @@ export class Sp108ePlatformAccessory {
         await this.setAnimationModeOn(value);
       } else if (this.deviceStatus.presetEffectMode !== UNKNOWN_MODE) {
         await this.setPresetModeOn(value);
+      } else if (this.deviceStatus.customEffectMode !== UNKNOWN_MODE) {
+        await this.setCustomEffectOn(value);
       } else {
         await this.setAnimationModeOn(value);
       }
@@ -537,17 +925,14 @@ export class Sp108ePlatformAccessory {
   }
 
   async setAnimationSpeed(value: CharacteristicValue) {
-    try {
-      await this.device.setAnimationSpeedPercentage(value as number);
-
-      this.debug && this.platform.log.info('Set Characteristic RotationSpeed of as ->', value);
-    } catch (e) {
-      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
-    }
+    this.debug && this.platform.log.info('Set Characteristic RotationSpeed of as ->', value);
+    this.scheduleWrite('speed', () => this.device.setAnimationSpeedPercentage(value as number));
   }
 
   async setAnimationModeOn(value: CharacteristicValue) {
     try {
+      // a manual selection ends the auto-cycle, any running playlist and adaptive lighting
+      this.manualOverride();
       this.debug && this.platform.log.info(
         'Checking whether Characteristic Active of as/md should be changed',
         value,
@@ -585,9 +970,14 @@ export class Sp108ePlatformAccessory {
         }
       }
 
+      // without defaultAnimation and while static, no animation mode is known yet
+      if (typeof ANIMATION_MODES[this.animationNumber] === 'undefined' || this.animationNumber === ANIMATION_MODE_STATIC) {
+        this.animationNumber = ANIMATION_MODE_WAVE;
+      }
+
       value
-        ? this.device.setAnimationMode(this.animationNumber)
-        : this.device.setAnimationMode(ANIMATION_MODE_STATIC);
+        ? await this.device.setAnimationMode(this.animationNumber)
+        : await this.device.setAnimationMode(ANIMATION_MODE_STATIC);
 
       this.debug && this.platform.log.info('Set Characteristic Active of as/md/pr ->', value);
     } catch (e) {
@@ -597,6 +987,7 @@ export class Sp108ePlatformAccessory {
 
   async setAnimationMode(value: CharacteristicValue) {
     try {
+      this.manualOverride();
       this.platform.log.info('Checking animation mode', value, value.toString(), ALL_ANIMATION_MODES[value.toString()]);
 
       if (!this.deviceStatus.on) {
@@ -617,6 +1008,7 @@ export class Sp108ePlatformAccessory {
 
   async setPresetModeOn(value: CharacteristicValue) {
     try {
+      this.manualOverride();
       this.debug && this.platform.log.info(
         'Checking whether Characteristic Active of pr should be changed',
         value,
@@ -652,9 +1044,14 @@ export class Sp108ePlatformAccessory {
         this.debug && this.platform.log.info('Current preset mode ->', this.presetEffectNumber);
       }
 
+      // without defaultPresetEffect no preset is known until the device reported one
+      if (typeof PRESET_EFFECTS[this.presetEffectNumber] === 'undefined') {
+        this.presetEffectNumber = PRESET_EFFECT_RAINBOW;
+      }
+
       value
-        ? this.device.setPresetMode(this.presetEffectNumber)
-        : this.device.setAnimationMode(ANIMATION_MODE_STATIC);
+        ? await this.device.setPresetMode(this.presetEffectNumber)
+        : await this.device.setAnimationMode(ANIMATION_MODE_STATIC);
 
       this.debug && this.platform.log.info('Set Characteristic Active of pr ->', value);
     } catch (e) {
@@ -666,6 +1063,7 @@ export class Sp108ePlatformAccessory {
 
   async setPresetMode(value: CharacteristicValue) {
     try {
+      this.manualOverride();
       const truncValue = (value as number) % 180 as CharacteristicValue;
       this.platform.log.info('Checking preset mode', value, truncValue.toString(), PRESET_EFFECTS[truncValue.toString()]);
 
@@ -686,4 +1084,488 @@ export class Sp108ePlatformAccessory {
       throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
     }
   }
-}
\ No newline at end of file
+
+  async setCustomEffectOn(value: CharacteristicValue) {
+    try {
+      this.manualOverride();
+      this.debug && this.platform.log.info(
+        'Checking whether Characteristic Active of ce should be changed',
+        value,
+        this.deviceStatus.customEffectMode,
+        this.customOn,
+      );
+
+      if (value && this.deviceStatus.customEffectMode !== UNKNOWN_MODE && this.customOn === true) {
+        this.debug && this.platform.log.info('Characteristic Active of ce is already ->', value);
+        return;
+      }
+      if (!value && this.deviceStatus.customEffectMode === UNKNOWN_MODE && this.customOn === false) {
+        this.debug && this.platform.log.info('Characteristic Active of ce is already ->', value);
+        return;
+      }
+
+      if (!this.deviceStatus.on) {
+        await this.device.on();
+      }
+
+      this.customOn = Boolean(value);
+
+      if (this.customOn && this.deviceStatus.customEffectMode !== UNKNOWN_MODE) {
+        this.customEffectNumber = this.deviceStatus.customEffectMode;
+      }
+
+      value
+        ? await this.device.setCustomEffect(this.customEffectNumber)
+        : await this.device.setAnimationMode(ANIMATION_MODE_STATIC);
+
+      this.debug && this.platform.log.info('Set Characteristic Active of ce ->', value);
+    } catch (e) {
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  async setCustomEffect(value: CharacteristicValue) {
+    try {
+      this.manualOverride();
+      this.platform.log.info('Checking custom effect', value);
+
+      if (!this.deviceStatus.on) {
+        await this.device.on();
+      }
+
+      const customEffect = Object.values(CUSTOM_EFFECTS).includes(value as number) ? value as number : CUSTOM_EFFECT_1;
+      this.customEffectNumber = customEffect;
+      this.customOn = true;
+      await this.device.setCustomEffect(customEffect);
+
+      this.debug && this.platform.log.info('Set Characteristic ActiveIdentifier of ce ->', customEffect);
+    } catch (e) {
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  async setDreamModeAuto(value: CharacteristicValue) {
+    try {
+      this.manualOverride();
+
+      if (!value) {
+        // keep the preset that is currently shown
+        if (this.deviceStatus.presetEffectMode !== UNKNOWN_MODE) {
+          await this.device.setPresetMode(this.deviceStatus.presetEffectMode);
+        }
+        return;
+      }
+
+      if (!this.deviceStatus.on) {
+        await this.device.on();
+      }
+      await this.device.setDreamModeAuto();
+      this.dreamModeAutoOn = true;
+
+      this.debug && this.platform.log.info('Set Characteristic On of da ->', value);
+    } catch (e) {
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  async setPlaylistOn(value: CharacteristicValue) {
+    this.manualOverride();
+    if (value) {
+      this.playlist?.start();
+    }
+    this.debug && this.platform.log.info('Set Characteristic On of pl ->', value);
+  }
+
+  async applyPlaylistEntry(entry: PlaylistEntry) {
+    this.debug && this.platform.log.info('Playlist entry ->', entry);
+
+    if (!this.deviceStatus?.on) {
+      await this.device.on();
+    }
+    entry.type === 'preset'
+      ? await this.device.setPresetMode(entry.effect)
+      : await this.device.setAnimationMode(entry.effect);
+    if (entry.speed !== undefined) {
+      await this.device.setAnimationSpeedPercentage(entry.speed);
+    }
+  }
+
+  /**
+   * Captured scenes are kept in the accessory context and survive restarts
+   */
+  getScene(name: string): Scene | undefined {
+    return this.accessory.context.scenes?.[name] ?? this.scenes.get(name)?.scene;
+  }
+
+  async setSceneOn(service: Service, name: string, value: CharacteristicValue) {
+    if (!value) {
+      return;
+    }
+    setTimeout(() => service.updateCharacteristic(this.platform.Characteristic.On, false), STATELESS_SWITCH_RESET_MS);
+
+    const scene = this.getScene(name);
+    if (!scene) {
+      this.platform.log.warn(`Scene ${name} has not been saved yet`);
+      return;
+    }
+    try {
+      await this.applyScene(scene);
+    } catch (e) {
+      this.platform.log.error(`Unable to apply scene ${name} ->`, e);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  async setSaveSceneOn(service: Service, name: string, value: CharacteristicValue) {
+    if (!value) {
+      return;
+    }
+    setTimeout(() => service.updateCharacteristic(this.platform.Characteristic.On, false), STATELESS_SWITCH_RESET_MS);
+
+    try {
+      const scene = captureScene(name, await this.device.getStatus(), this.wService !== undefined);
+      this.accessory.context.scenes = { ...this.accessory.context.scenes, [name]: scene };
+      this.platform.api.updatePlatformAccessories([this.accessory]);
+      this.platform.log.info(`Saved scene ${name} ->`, scene);
+    } catch (e) {
+      this.platform.log.error(`Unable to save scene ${name} ->`, e);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  /**
+   * Applies a scene: power, then the mode, which the color, brightness and speed depend on
+   */
+  async applyScene(scene: Scene) {
+    this.debug && this.platform.log.info('Applying scene ->', scene);
+    this.manualOverride();
+    this.transitions.cancel();
+
+    this.deviceStatus = await this.device.setPower(scene.on);
+    if (!scene.on) {
+      await this.pollStatus();
+      return;
+    }
+
+    this.animationOn = scene.mode?.type === 'animation' && scene.mode.effect !== ANIMATION_MODE_STATIC;
+    this.presetOn = scene.mode?.type === 'preset';
+    this.customOn = scene.mode?.type === 'custom';
+    switch (scene.mode?.type) {
+      case 'custom':
+        this.customEffectNumber = scene.mode.effect;
+        await this.device.setCustomEffect(scene.mode.effect);
+        break;
+      case 'preset':
+        this.presetEffectNumber = scene.mode.effect;
+        await this.device.setPresetMode(scene.mode.effect);
+        break;
+      case 'animation':
+        await this.device.setAnimationMode(scene.mode.effect);
+        break;
+      default:
+        // a color without mode is shown statically
+        if (scene.color !== undefined) {
+          await this.device.setAnimationMode(ANIMATION_MODE_STATIC);
+        }
+    }
+
+    if (scene.color !== undefined && showsColor(scene)) {
+      // the mode was just set: animations show the color, anything else is static by now
+      const animationMode = scene.mode?.type === 'animation' ? scene.mode.effect : ANIMATION_MODE_STATIC;
+      await this.device.setColor(scene.color, { ...this.deviceStatus, animationMode });
+    }
+    if (scene.brightness !== undefined) {
+      await this.device.setBrightnessPercentage(scene.brightness);
+    }
+    if (scene.white !== undefined && this.wService) {
+      await this.device.setWhiteBrightnessPercentage(scene.white);
+    }
+    if (scene.speed !== undefined) {
+      await this.device.setAnimationSpeedPercentage(scene.speed);
+    }
+
+    // reflect the whole scene in HomeKit right away
+    await this.pollStatus();
+  }
+
+  async setRoutineOn(routine: RoutineName, value: CharacteristicValue) {
+    if (value) {
+      this.startRoutine(routine);
+    } else if (this.activeRoutine === routine) {
+      this.stopRoutine();
+    }
+  }
+
+  /**
+   * Runs a routine in the background, it ends with its last step or with any manual change
+   */
+  startRoutine(routine: RoutineName) {
+    const entry = this.routines.get(routine);
+    if (!entry) {
+      return;
+    }
+    // ends the other routine, effects and adaptive lighting
+    this.manualOverride();
+    this.transitions.cancel();
+    this.activeRoutine = routine;
+    entry.service.updateCharacteristic(this.platform.Characteristic.On, true);
+    this.platform.log.info(`Starting ${routine} ->`, `${entry.config.durationMs / 60000} min`);
+
+    const run = routine === 'sunrise' ?
+      this.runSunrise(entry.config.durationMs) :
+      this.fadeBrightness(0, entry.config.durationMs, 'routine');
+    run.then((completed) => {
+      if (completed && this.activeRoutine === routine) {
+        this.platform.log.info(`Finished ${routine}`);
+        this.activeRoutine = undefined;
+        entry.service.updateCharacteristic(this.platform.Characteristic.On, false);
+      }
+    }).catch((e) => {
+      this.platform.log.error(`${routine} error ->`, e);
+      if (this.activeRoutine === routine) {
+        this.stopRoutine();
+      }
+    });
+  }
+
+  stopRoutine() {
+    if (this.activeRoutine === undefined) {
+      return;
+    }
+    this.debug && this.platform.log.info('Stopping routine ->', this.activeRoutine);
+    this.transitions.cancel('routine');
+    this.routines.get(this.activeRoutine)?.service.updateCharacteristic(this.platform.Characteristic.On, false);
+    this.activeRoutine = undefined;
+  }
+
+  /**
+   * Starts dim deep red, switches the strip on and ramps through orange to bright warm white
+   * @returns false when it was cancelled
+   */
+  async runSunrise(durationMs: number): Promise<boolean> {
+    const first = sunriseFrame(0);
+    await this.device.setAnimationMode(ANIMATION_MODE_STATIC);
+    await this.device.setBrightnessPercentage(first.brightness);
+    await this.device.setColor(first.color, { ...this.deviceStatus, animationMode: ANIMATION_MODE_STATIC });
+    this.deviceStatus = await this.device.setPower(true);
+
+    // routines run for minutes, each frame reads the mode again in case it was changed in the meantime
+    return this.transitions.run('routine', durationMs, async (t) => {
+      const frame = sunriseFrame(t);
+      await this.device.setColor(frame.color);
+      await this.device.setBrightnessPercentage(frame.brightness);
+    });
+  }
+
+  scheduleRoutine(routine: RoutineName) {
+    const entry = this.routines.get(routine);
+    if (!entry?.config.schedule) {
+      return;
+    }
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+    }
+    const delay = msUntilNext(entry.config.schedule);
+    this.debug && this.platform.log.info(`Next ${routine} in minutes ->`, Math.round(delay / 60000));
+    entry.timer = setTimeout(() => {
+      this.startRoutine(routine);
+      this.scheduleRoutine(routine);
+    }, delay);
+  }
+
+  /**
+   * Ends the routine schedules, the playlist and running transitions when homebridge shuts down
+   */
+  stop() {
+    for (const entry of this.routines.values()) {
+      if (entry.timer) {
+        clearTimeout(entry.timer);
+        entry.timer = undefined;
+      }
+    }
+    this.playlist?.stop();
+    this.stopRoutine();
+    this.transitions.cancel();
+  }
+
+  /**
+   * Ends everything that changes the strip on its own when the color or effect is set manually
+   */
+  manualOverride() {
+    this.stopEffectCycling();
+    this.stopRoutine();
+    this.transitions.cancel('color');
+
+    if (this.adaptiveLightingController?.isAdaptiveLightingActive()) {
+      this.debug && this.platform.log.info('Disabling adaptive lighting');
+      this.adaptiveLightingController.disableAdaptiveLighting();
+    }
+  }
+
+  isAdaptiveLightingWrite(context): boolean {
+    return this.adaptiveLightingController !== undefined && context?.controller === this.adaptiveLightingController;
+  }
+
+  /**
+   * Whether the strip shows an effect (animation, preset, custom effect, auto-cycle or playlist) instead of a static color
+   */
+  isEffectRunning(): boolean {
+    return this.dreamModeAutoOn || Boolean(this.playlist?.running) ||
+      (this.deviceStatus !== undefined && this.deviceStatus.animationMode !== ANIMATION_MODE_STATIC);
+  }
+
+  /**
+   * Ends the controller auto-cycle and the playlist, e.g. when an effect or color is selected manually
+   */
+  stopEffectCycling() {
+    this.dreamModeAutoOn = false;
+    this.daService.updateCharacteristic(this.platform.Characteristic.On, false);
+
+    if (this.playlist?.running) {
+      this.playlist.stop();
+      this.plService?.updateCharacteristic(this.platform.Characteristic.On, false);
+    }
+  }
+
+  // Facade for other frontends (REST API). Changes run through the HomeKit handlers and are reflected in HomeKit.
+
+  get id(): string {
+    return this.accessory.UUID;
+  }
+
+  get name(): string {
+    return this.accessory.context.device.name;
+  }
+
+  get health(): HealthState {
+    return this.device.health.state;
+  }
+
+  get queueStats(): CommandQueueStats {
+    return this.device.queueStats;
+  }
+
+  get hasWhiteChannel(): boolean {
+    return this.wService !== undefined;
+  }
+
+  /**
+   * Configured name of a custom effect, carried by its input source
+   */
+  customEffectName(customEffect: number): string {
+    const inputSource = this.accessory.getService(`Custom Effect ${customEffect} CE`);
+    return inputSource?.getCharacteristic(this.platform.Characteristic.ConfiguredName).value as string ?? `Custom Effect ${customEffect}`;
+  }
+
+  /**
+   * Schedule entries of the device config, run by the platform scheduler
+   */
+  get schedules(): unknown[] {
+    return Array.isArray(this.accessory.context.device.schedules) ? this.accessory.context.device.schedules : [];
+  }
+
+  get polledStatus(): sp108eStatus | undefined {
+    return this.deviceStatus;
+  }
+
+  /**
+   * Calls the listener whenever the polled status or the connection health changes
+   */
+  onStateChange(listener: () => void) {
+    // the client emits before pollStatus() stored the status, let the poll finish first
+    const deferred = () => setImmediate(listener);
+    this.device.events.on('status', deferred);
+    this.device.events.on('health', deferred);
+  }
+
+  getState(): DeviceState | undefined {
+    if (this.deviceStatus === undefined) {
+      return undefined;
+    }
+    const status = this.deviceStatus;
+    let mode: DeviceState['mode'] = { type: 'unknown', id: UNKNOWN_MODE };
+    if (status.customEffectMode !== UNKNOWN_MODE) {
+      mode = { type: 'custom', id: status.customEffectMode, name: this.customEffectName(status.customEffectMode) };
+    } else if (status.presetEffectMode !== UNKNOWN_MODE) {
+      mode = { type: 'preset', id: status.presetEffectMode, name: PRESET_EFFECTS[status.presetEffectMode] };
+    } else if (status.animationMode !== UNKNOWN_MODE) {
+      mode = { type: 'animation', id: status.animationMode, name: ANIMATION_MODES[status.animationMode] };
+    }
+
+    return {
+      id: this.id,
+      name: this.name,
+      host: this.accessory.context.device.host,
+      health: this.device.health.state,
+      on: status.on,
+      brightness: Math.round(status.brightnessPercentage),
+      color: status.color,
+      white: this.wService ? Math.round(status.whiteBrightnessPercentage) : undefined,
+      speed: Math.round(status.animationSpeedPercentage),
+      mode,
+      dreamModeAuto: this.dreamModeAutoOn && status.on,
+      playlist: Boolean(this.playlist?.running),
+    };
+  }
+
+  /**
+   * @param {number} transitionMs fade duration, defaults to the configured fade of the device
+   */
+  async applyPower(on: boolean, transitionMs?: number) {
+    await this.switchPower(on, transitionMs ?? (on ? this.fade.on : this.fade.off));
+    this.rgbService.updateCharacteristic(this.platform.Characteristic.On, on);
+  }
+
+  /**
+   * @param {number} transitionMs fade duration, changes without it are instant like in HomeKit
+   */
+  async applyBrightness(brightness: number, transitionMs?: number) {
+    if (transitionMs) {
+      this.brightnessBeforeFade = undefined;
+      this.scheduleWrite('brightness', () => this.fadeBrightness(brightness < 1 ? 0 : brightness, transitionMs));
+    } else {
+      await this.setBrightness(brightness);
+    }
+    this.rgbService.updateCharacteristic(this.platform.Characteristic.Brightness, brightness);
+  }
+
+  /**
+   * @param {number} transitionMs fade duration, defaults to the configured color fade of the device
+   */
+  async applyColor(hexColor: string, transitionMs?: number) {
+    const { hue, saturation } = calculateHsv(hexColor);
+    this.manualOverride();
+    this.targetHue = undefined;
+    this.targetSaturation = undefined;
+    this.scheduleWrite('color', () => this.writeColor(hexColor, transitionMs));
+    this.rgbService.updateCharacteristic(this.platform.Characteristic.Hue, hue);
+    this.rgbService.updateCharacteristic(this.platform.Characteristic.Saturation, saturation);
+  }
+
+  async applyWhite(brightness: number) {
+    await this.setWhiteBrightness(brightness);
+    this.wService?.updateCharacteristic(this.platform.Characteristic.Brightness, brightness);
+  }
+
+  async applySpeed(speed: number) {
+    await this.setAnimationSpeed(speed);
+    this.asService.updateCharacteristic(this.platform.Characteristic.RotationSpeed, speed);
+  }
+
+  async applyAnimationMode(animationMode: number) {
+    await this.setAnimationMode(animationMode);
+    this.animationNumber = animationMode;
+    this.mdService.updateCharacteristic(this.platform.Characteristic.ActiveIdentifier, animationMode);
+  }
+
+  async applyPresetEffect(presetEffect: number) {
+    await this.setPresetMode(presetEffect);
+    this.presetEffectNumber = presetEffect;
+    this.prService.updateCharacteristic(this.platform.Characteristic.ActiveIdentifier, presetEffect);
+  }
+
+  async applyCustomEffect(customEffect: number) {
+    await this.setCustomEffect(customEffect);
+    this.ceService.updateCharacteristic(this.platform.Characteristic.ActiveIdentifier, customEffect);
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Scheduler
+ * Runs the schedule entries of every controller without a home hub. Triggers are evaluated once a minute in local time,
+ * sunrise and sunset are computed from the configured location. Actions go through the accessory handlers,
+ * so HomeKit stays in sync.
+ */
+import { Logger } from 'homebridge';
+import { Sp108ePlatformAccessory } from './platformAccessory';
+import { ScheduleEntry, Holiday, parseScheduleEntry, parseHoliday, currentHoliday, triggerMatches } from './lib/schedules';
+import { SunTimes, sunTimes } from './lib/solar';
+
+export interface SchedulerOptions {
+  location?: { latitude?: number; longitude?: number };
+  holidays?: unknown[];
+}
+
+export class Scheduler {
+  private timer?: NodeJS.Timeout;
+  private entries: { device: Sp108ePlatformAccessory; entry: ScheduleEntry }[] = [];
+  private holidays: Holiday[] = [];
+  // sun times of the current local day
+  private sun?: { day: string; times: SunTimes };
+
+  constructor(
+    private readonly log: Logger,
+    private readonly options: SchedulerOptions,
+    private readonly devices: () => Sp108ePlatformAccessory[],
+  ) {
+  }
+
+  /**
+   * Parses the schedules of all devices, returns false when there is nothing to schedule
+   */
+  start = (): boolean => {
+    this.holidays = (Array.isArray(this.options.holidays) ? this.options.holidays : [])
+      .map(config => parseHoliday(config, (message) => this.log.warn('Holiday ->', message)))
+      .filter((holiday): holiday is Holiday => holiday !== undefined);
+
+    const hasLocation = this.location() !== undefined;
+    this.entries = [];
+    for (const device of this.devices()) {
+      for (const config of device.schedules) {
+        const entry = parseScheduleEntry(config, (message) => this.log.warn(`${device.name} schedule ->`, message));
+        if (entry?.trigger.type === 'sun' && !hasLocation) {
+          this.log.warn(`${device.name} schedule ${entry.name} uses ${entry.trigger.event} but no location is configured`);
+          continue;
+        }
+        if (entry) {
+          this.entries.push({ device, entry });
+        }
+      }
+    }
+    if (this.entries.length === 0) {
+      return false;
+    }
+
+    this.log.info('Scheduler started ->', this.entries.map(({ device, entry }) => `${device.name}: ${entry.name}`));
+    this.scheduleTick();
+    return true;
+  };
+
+  stop = () => {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  };
+
+  private location(): { latitude: number; longitude: number } | undefined {
+    const { latitude, longitude } = this.options.location ?? {};
+    if (typeof latitude !== 'number' || typeof longitude !== 'number' || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      return undefined;
+    }
+    return { latitude, longitude };
+  }
+
+  private sunTimes(now: Date): SunTimes | undefined {
+    const location = this.location();
+    if (!location) {
+      return undefined;
+    }
+    const day = now.toDateString();
+    if (this.sun?.day !== day) {
+      this.sun = { day, times: sunTimes(now, location.latitude, location.longitude) };
+      this.log.debug('Sun times ->', this.sun.times);
+    }
+    return this.sun.times;
+  }
+
+  /**
+   * Ticks shortly after the start of every minute, the timer is re-armed each time so it doesn't drift
+   */
+  private scheduleTick() {
+    const delay = 60000 - Date.now() % 60000 + 500;
+    this.timer = setTimeout(() => {
+      this.tick(new Date());
+      this.scheduleTick();
+    }, delay);
+  }
+
+  private tick(now: Date) {
+    const sun = this.sunTimes(now);
+    for (const { device, entry } of this.entries) {
+      if (triggerMatches(entry.trigger, now, sun)) {
+        this.log.info(`${device.name} running schedule ->`, entry.name);
+        this.run(device, entry, now).catch((e) => {
+          this.log.error(`${device.name} schedule ${entry.name} failed ->`, e);
+        });
+      }
+    }
+  }
+
+  private async run(device: Sp108ePlatformAccessory, entry: ScheduleEntry, now: Date) {
+    const { action } = entry;
+    if (action.scene !== undefined) {
+      const scene = device.getScene(action.scene);
+      if (!scene) {
+        throw new Error('Unknown scene ' + action.scene);
+      }
+      await device.applyScene(scene);
+      return;
+    }
+
+    if (action.power === false) {
+      await device.applyPower(false);
+      return;
+    }
+    if (action.power === true) {
+      await device.applyPower(true);
+    }
+
+    const holiday = action.holidayEffect ? currentHoliday(this.holidays, now) : undefined;
+    const effect = holiday?.effect ?? action.effect;
+    holiday && this.log.info(`${device.name} using the effect of ${holiday.name}`);
+    if (effect?.type === 'preset') {
+      await device.applyPresetEffect(effect.effect);
+    } else if (effect) {
+      await device.applyAnimationMode(effect.effect);
+    }
+    if (action.color !== undefined) {
+      await device.applyColor(action.color);
+    }
+    if (action.brightness !== undefined) {
+      await device.applyBrightness(action.brightness);
+    }
+  }
+}